@@ -1,41 +1,254 @@
-import { useState, useRef } from 'react'
+import { useState, useRef, useMemo, useEffect, useCallback } from 'react'
 import './App.css'
 import { ImageUploader } from './components/ImageUploader'
 import { SegmentationViewer } from './components/SegmentationViewer'
 import { ManualSelector } from './components/ManualSelector'
+import { MaskCleanupPanel } from './components/MaskCleanupPanel'
+import { MaskOperationsPanel } from './components/MaskOperationsPanel'
+import { LayersPanel } from './components/LayersPanel'
+import { HistoryPanel } from './components/HistoryPanel'
+import { ProjectGallery } from './components/ProjectGallery'
 import { ToolSelector } from './components/ToolSelector'
 import { ColorPicker } from './components/ColorPicker'
 import { CanvasEditor } from './components/CanvasEditor'
 import { useImageProcessor } from './hooks/useImageProcessor'
 import { useSegmentation } from './hooks/useSegmentation'
+import { useProjects } from './hooks/useProjects'
 import { useAppStore } from './store'
-import { ImageData as CustomImageData, Color } from './types'
-import { SegmentationMask } from './services/segmentation'
+import { AppState, ImageData as CustomImageData, Color, EditorStep, ScribbleLabel, SelectionMode, SelectionTool, Sheen } from './types'
+import { MagicWandOptions } from './utils/magicWand'
+import { GraphCutOptions } from './utils/graphCut'
+import { getRegionKey } from './utils/colorScheme'
+import { getInstanceMask } from './utils/maskUtils'
+import { resolveLayers } from './utils/layers'
+import { DEFAULT_EDGE_CONTRAST, DEFAULT_FEATHER_RADIUS, LightnessMode, RecolorMode } from './services/colorProcessor'
+import { ProjectSession } from './services/projectStorage'
+import {
+  SegmentationBackendId,
+  DEFAULT_SEGMENTATION_BACKEND,
+  listBackends,
+  getBackend,
+  getSceneProfile,
+  SceneProfileId
+} from './services/segmentation'
+
+// Shown in the picker for areas that don't have a color yet
+const DEFAULT_REGION_COLOR: Color = { hue: 212, saturation: 72, lightness: 59, hex: '#4A90E2' }
+
+const SHEENS: { sheen: Sheen | undefined; label: string }[] = [
+  { sheen: undefined, label: 'As photographed' },
+  { sheen: 'flat', label: 'Flat' },
+  { sheen: 'eggshell', label: 'Eggshell' },
+  { sheen: 'satin', label: 'Satin' },
+  { sheen: 'semi-gloss', label: 'Semi-gloss' },
+  { sheen: 'gloss', label: 'Gloss' }
+]
+
+// Recolor settings the editor starts with, and projects saved before they were kept
+const DEFAULT_RECOLOR_MODE: RecolorMode = 'oklab'
+const DEFAULT_LIGHTNESS_MODE: LightnessMode = 'match'
+
+// Wait this long (ms) after the last change before saving the open project
+const AUTOSAVE_DELAY = 1000
+
+// What the autosave writes for the open project
+interface ProjectSave {
+  project: AppState['project']
+  session: ProjectSession
+}
+
+const RECOLOR_MODES: { mode: RecolorMode; label: string }[] = [
+  { mode: 'oklab', label: 'OKLab' },
+  { mode: 'lab', label: 'CIELAB' },
+  { mode: 'hsl', label: 'HSL' }
+]
 
 function App() {
   const [uploadedImage, setUploadedImage] = useState<CustomImageData | null>(null)
-  const [currentStep, setCurrentStep] = useState<'upload' | 'segment' | 'color'>('upload')
-  const [selectedTool, setSelectedTool] = useState<'ai' | 'brush' | 'eraser' | 'polygon'>('ai')
+  const [currentStep, setCurrentStep] = useState<EditorStep>('upload')
+  const [selectedTool, setSelectedTool] = useState<SelectionTool>('ai')
   const [brushSize, setBrushSize] = useState(10)
   const [selectedClass, setSelectedClass] = useState(1) // Default to walls
-  const [selectedColor, setSelectedColor] = useState<Color>({ hue: 220, saturation: 80, lightness: 60, hex: '#4A90E2' })
-  const [colorIntensity, setColorIntensity] = useState(1)
-  const [selectedMasks, setSelectedMasks] = useState<SegmentationMask[]>([])
+  const [activeRegion, setActiveRegion] = useState<string | null>(null)
+  const [recolorMode, setRecolorMode] = useState(DEFAULT_RECOLOR_MODE)
+  const [lightnessMode, setLightnessMode] = useState(DEFAULT_LIGHTNESS_MODE)
+  const [featherRadius, setFeatherRadius] = useState(DEFAULT_FEATHER_RADIUS)
+  const [edgeContrast, setEdgeContrast] = useState(DEFAULT_EDGE_CONTRAST)
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('add')
+  const [wandOptions, setWandOptions] = useState<MagicWandOptions>({ tolerance: 15, contiguous: true })
+  const [scribbleLabel, setScribbleLabel] = useState<ScribbleLabel>('foreground')
+  const [graphCutOptions, setGraphCutOptions] = useState<GraphCutOptions>({ smoothness: 50 })
   const [finalImageData, setFinalImageData] = useState<globalThis.ImageData | null>(null)
+  const [segmentationBackend, setSegmentationBackend] = useState<SegmentationBackendId>(DEFAULT_SEGMENTATION_BACKEND)
   const imageRef = useRef<HTMLImageElement>(null)
+  // Bumped on undo and redo so components holding their own copy of the session reload it
+  const [restoreCount, setRestoreCount] = useState(0)
+  // The open project as last opened or saved
+  const lastSaveRef = useRef<ProjectSave | null>(null)
   
   const { processImageFile, isProcessing, error, clearError } = useImageProcessor()
-  const { segmentImage, isSegmenting, error: segmentError } = useSegmentation()
-  
   const { 
+    project,
     setImage, 
+    classes,
+    addCustomClass,
+    removeCustomClass,
     segmentation, 
     setSegmentation, 
     selectedAreas, 
     toggleSelectedArea,
-    clearSelectedAreas 
+    selectedInstances,
+    toggleSelectedInstance,
+    clearSelectedAreas,
+    applyMaskSelection,
+    replaceMask,
+    colorScheme,
+    setRegionColor,
+    removeRegionColor,
+    clearColorScheme,
+    updateSelection,
+    moveSelection,
+    removeSelection,
+    sceneProfile,
+    setSceneProfile,
+    historyIndex,
+    undo,
+    redo,
+    jumpToHistory,
+    setProjectInfo,
+    openProject,
+    closeProject
   } = useAppStore()
 
+  const {
+    projects,
+    refreshProjects,
+    createProject,
+    saveProject,
+    openProject: loadProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    saveThumbnail,
+    isSaving,
+    error: projectError
+  } = useProjects()
+
+  const {
+    segmentImage,
+    cancelSegmentation,
+    isSegmenting,
+    progress: segmentProgress,
+    error: segmentError
+  } = useSegmentation(segmentationBackend, sceneProfile)
+
+  // Masks of the selected classes and instances; derived so mask edits show up immediately
+  const selectedMasks = useMemo(() => {
+    if (!segmentation) return []
+    const classMasks = segmentation.masks.filter(mask => selectedAreas.includes(mask.classId))
+    const instanceMasks = selectedInstances.flatMap(({ classId, instanceId }) => {
+      const mask = segmentation.masks.find(m => m.classId === classId)
+      return mask ? [getInstanceMask(mask, instanceId)] : []
+    })
+    return [...classMasks, ...instanceMasks]
+  }, [segmentation, selectedAreas, selectedInstances])
+
+  // Every mask and each of its pieces is a layer; the canvas composites them bottom to top
+  const layers = project.selections
+  const layerMasks = useMemo(
+    () => resolveLayers(layers, segmentation?.masks ?? []).map(({ mask }) => mask),
+    [layers, segmentation]
+  )
+
+  // Layer the color picker edits, defaulting to the first selected area
+  const firstSelectedKey = selectedMasks.length > 0
+    ? getRegionKey(selectedMasks[0].classId, selectedMasks[0].instanceId)
+    : null
+  const activeRegionKey = layers.some(layer => layer.id === activeRegion)
+    ? activeRegion
+    : layers.some(layer => layer.id === firstSelectedKey) ? firstSelectedKey : layers[layers.length - 1]?.id ?? null
+  const activeRegionColor = activeRegionKey ? colorScheme[activeRegionKey] : undefined
+
+  const handleUndo = useCallback(() => {
+    undo()
+    setRestoreCount(count => count + 1)
+  }, [undo])
+
+  const handleRedo = useCallback(() => {
+    redo()
+    setRestoreCount(count => count + 1)
+  }, [redo])
+
+  const handleHistoryJump = (index: number) => {
+    jumpToHistory(index)
+    setRestoreCount(count => count + 1)
+  }
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    if (currentStep === 'upload') return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return
+      if ((e.target instanceof HTMLInputElement && e.target.type === 'text') || e.target instanceof HTMLTextAreaElement) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) handleRedo()
+        else handleUndo()
+      } else if (key === 'y') {
+        e.preventDefault()
+        handleRedo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [currentStep, handleUndo, handleRedo])
+
+  // Everything about the open project outside its Project record
+  const getProjectSession = useCallback((): ProjectSession => ({
+    sceneProfile,
+    classes,
+    segmentation,
+    selectedAreas,
+    selectedInstances,
+    colorScheme,
+    historyIndex,
+    view: {
+      step: currentStep,
+      selectedTool,
+      selectedClass,
+      activeRegion,
+      recolorMode,
+      lightnessMode,
+      featherRadius,
+      edgeContrast
+    }
+  }), [sceneProfile, classes, segmentation, selectedAreas, selectedInstances, colorScheme, historyIndex, currentStep, selectedTool, selectedClass, activeRegion, recolorMode, lightnessMode, featherRadius, edgeContrast])
+
+  // Save the open project a moment after anything in it changes; just opening
+  // it changes nothing, so it keeps its place in the gallery
+  useEffect(() => {
+    if (!project.id) return
+    const session = getProjectSession()
+    if (lastSaveRef.current && isSameSave(lastSaveRef.current, { project, session })) return
+
+    const timer = window.setTimeout(() => {
+      lastSaveRef.current = { project, session }
+      saveProject(project, session)
+    }, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [project, getProjectSession, saveProject])
+
+  // The gallery shows the latest render of each project, encoded once color tweaks settle
+  useEffect(() => {
+    if (!project.id || !finalImageData) return
+    const timer = window.setTimeout(() => saveThumbnail(project.id, finalImageData), AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [project.id, finalImageData, saveThumbnail])
+
   const handleImageUpload = async (file: File) => {
     try {
       clearError()
@@ -43,17 +256,50 @@ function App() {
       setUploadedImage(imageData)
       setImage(imageData)
       setCurrentStep('segment')
+
+      // Saved straight away, so a refresh can't lose the photo
+      const session = getProjectSession()
+      const saved = await createProject(file.name.replace(/\.[^.]+$/, '') || 'My House', imageData, {
+        ...session,
+        view: { ...session.view, step: 'segment' }
+      })
+      if (saved) {
+        setProjectInfo(saved.id, saved.name)
+      }
     } catch (err) {
       console.error('Failed to process image:', err)
     }
   }
 
+  const handleOpenProject = async (id: string) => {
+    const opened = await loadProject(id)
+    if (!opened) return
+
+    const { view } = opened.session
+    const { id: projectId, name, image, selections, history } = opened.project
+    lastSaveRef.current = { project: { id: projectId, name, image, selections, history }, session: opened.session }
+    cancelSegmentation()
+    openProject(opened.project, opened.session)
+    setUploadedImage(opened.project.image)
+    setSelectedTool(view.selectedTool)
+    setSelectedClass(view.selectedClass)
+    setActiveRegion(view.activeRegion)
+    setRecolorMode(view.recolorMode ?? DEFAULT_RECOLOR_MODE)
+    setLightnessMode(view.lightnessMode ?? DEFAULT_LIGHTNESS_MODE)
+    setFeatherRadius(view.featherRadius ?? DEFAULT_FEATHER_RADIUS)
+    setEdgeContrast(view.edgeContrast ?? DEFAULT_EDGE_CONTRAST)
+    setFinalImageData(null)
+    setCurrentStep(view.step)
+  }
+
   const handleStartSegmentation = async () => {
     if (!uploadedImage || !imageRef.current) return
     
     try {
       const result = await segmentImage(imageRef.current)
-      setSegmentation(result)
+      if (result) {
+        setSegmentation(result)
+      }
       // Stay on segment step so user can select areas
     } catch (err) {
       console.error('Segmentation failed:', err)
@@ -62,53 +308,55 @@ function App() {
 
   const handleAreaSelect = (classId: number) => {
     toggleSelectedArea(classId)
-    
-    // Update selected masks for color processing
-    if (segmentation) {
-      // Calculate what the new selected areas will be after toggle
-      const newSelectedAreas = selectedAreas.includes(classId)
-        ? selectedAreas.filter(id => id !== classId)
-        : [...selectedAreas, classId]
-      
-      const newSelectedMasks = segmentation.masks.filter(mask => 
-        newSelectedAreas.includes(mask.classId)
-      )
-      setSelectedMasks(newSelectedMasks)
-      
-      console.log('Selected areas:', newSelectedAreas)
-      console.log('Selected masks:', newSelectedMasks)
+  }
+
+  // Walls exist in every scene, so drawing falls back to them when the class goes away
+  const handleSceneProfileChange = (profile: SceneProfileId) => {
+    cancelSegmentation()
+    setSceneProfile(profile)
+    if (!getSceneProfile(profile).classes.some(c => c.id === selectedClass)) {
+      setSelectedClass(1)
+    }
+  }
+
+  // Fall back to walls when the class being drawn is removed
+  const handleRemoveClass = (classId: number) => {
+    removeCustomClass(classId)
+    if (selectedClass === classId) {
+      setSelectedClass(1)
     }
   }
 
   const handleReset = () => {
+    // Save what's pending first; clearing the editor below mustn't reach the project
+    if (project.id) {
+      saveProject(project, getProjectSession()).then(refreshProjects)
+    }
+    closeProject()
+    cancelSegmentation()
     setUploadedImage(null)
     setSegmentation(null)
     clearSelectedAreas()
-    setSelectedMasks([])
+    clearColorScheme()
+    setActiveRegion(null)
     setFinalImageData(null)
     setCurrentStep('upload')
     clearError()
   }
 
-  const handleManualSelection = (selection: { points: number[], classId: number }) => {
-    // Handle manual selection by adding it to selected areas
-    toggleSelectedArea(selection.classId)
-    
-    // Update selected masks for color processing
-    if (segmentation) {
-      const newSelectedMasks = segmentation.masks.filter(mask => 
-        selectedAreas.includes(mask.classId) || mask.classId === selection.classId
-      )
-      setSelectedMasks(newSelectedMasks)
-    }
-  }
-
   const handleColorChange = (color: Color) => {
-    setSelectedColor(color)
+    if (!activeRegionKey) return
+    setRegionColor(activeRegionKey, { intensity: 1, ...activeRegionColor, color })
   }
 
   const handleColorIntensityChange = (intensity: number) => {
-    setColorIntensity(intensity)
+    if (!activeRegionKey) return
+    setRegionColor(activeRegionKey, { color: DEFAULT_REGION_COLOR, ...activeRegionColor, intensity })
+  }
+
+  const handleSheenChange = (sheen: Sheen | undefined) => {
+    if (!activeRegionKey) return
+    setRegionColor(activeRegionKey, { color: DEFAULT_REGION_COLOR, intensity: 1, ...activeRegionColor, sheen })
   }
 
   const handleFinalColorChange = (imageData: globalThis.ImageData) => {
@@ -135,6 +383,11 @@ function App() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
           <h1 className="text-3xl font-bold text-gray-900">ColorMyHouse</h1>
           <p className="text-gray-600">AI-Powered House Color Visualizer</p>
+          {project.id && (
+            <p className={`text-sm ${projectError ? 'text-red-600' : 'text-gray-500'}`}>
+              {project.name} · {projectError ?? (isSaving ? 'Saving...' : 'Saved in this browser')}
+            </p>
+          )}
         </div>
       </header>
       
@@ -160,7 +413,18 @@ function App() {
                   <span className="text-sm">{error}</span>
                 </div>
               )}
+              {projectError && (
+                <p className="mt-4 text-sm text-red-600">{projectError}</p>
+              )}
             </div>
+
+            <ProjectGallery
+              projects={projects}
+              onOpen={handleOpenProject}
+              onRename={renameProject}
+              onDuplicate={duplicateProject}
+              onDelete={deleteProject}
+            />
             
             {/* How it works */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -201,12 +465,25 @@ function App() {
           <div className="space-y-6">
             {/* Tool Selector */}
             <ToolSelector
+              sceneProfile={sceneProfile}
+              onSceneProfileChange={handleSceneProfileChange}
               selectedTool={selectedTool}
               onToolChange={setSelectedTool}
               brushSize={brushSize}
               onBrushSizeChange={setBrushSize}
               selectedClass={selectedClass}
               onClassChange={setSelectedClass}
+              classes={classes}
+              onAddClass={addCustomClass}
+              onRemoveClass={handleRemoveClass}
+              selectionMode={selectionMode}
+              onSelectionModeChange={setSelectionMode}
+              wandOptions={wandOptions}
+              onWandOptionsChange={setWandOptions}
+              scribbleLabel={scribbleLabel}
+              onScribbleLabelChange={setScribbleLabel}
+              graphCutOptions={graphCutOptions}
+              onGraphCutOptionsChange={setGraphCutOptions}
             />
 
             <div className="bg-white rounded-lg shadow p-6">
@@ -236,7 +513,7 @@ function App() {
                         <img
                           ref={imageRef}
                           src={uploadedImage?.url}
-                          alt="Uploaded house"
+                          alt={sceneProfile === 'interior' ? 'Uploaded room' : 'Uploaded house'}
                           className="w-full h-auto max-h-96 object-contain"
                           crossOrigin="anonymous"
                         />
@@ -251,9 +528,34 @@ function App() {
                     <div className="space-y-4">
                       <h3 className="text-lg font-medium text-gray-900">AI Analysis</h3>
                       <p className="text-gray-600">
-                        Our AI will automatically detect different parts of your house including walls, roof, doors, windows, and more.
+                        {sceneProfile === 'interior'
+                          ? 'Our AI will automatically detect different parts of your room including walls, ceiling, baseboards, cabinets, and more.'
+                          : 'Our AI will automatically detect different parts of your house including walls, roof, doors, windows, and more.'}
                       </p>
                       
+                      <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Segmentation Engine
+                        </label>
+                        <div className="space-y-2">
+                          {listBackends().map(backend => (
+                            <button
+                              key={backend.id}
+                              onClick={() => setSegmentationBackend(backend.id)}
+                              disabled={isSegmenting}
+                              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                                segmentationBackend === backend.id
+                                  ? 'border-blue-500 bg-blue-50 text-blue-900'
+                                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                              }`}
+                            >
+                              <div className="text-sm font-medium">{backend.displayName}</div>
+                              <div className="text-xs text-gray-500">{backend.description}</div>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      
                       {segmentError && (
                         <div className="flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-md">
                           <svg className="h-5 w-5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
@@ -275,22 +577,38 @@ function App() {
                         {isSegmenting ? (
                           <div className="flex items-center justify-center space-x-2">
                             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                            <span>Analyzing Image...</span>
+                            <span>Analyzing Image... {Math.round(segmentProgress * 100)}%</span>
                           </div>
                         ) : (
                           'Start AI Segmentation'
                         )}
                       </button>
                       
+                      {isSegmenting && (
+                        <div className="space-y-2">
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className="bg-blue-600 h-2 rounded-full transition-all"
+                              style={{ width: `${Math.round(segmentProgress * 100)}%` }}
+                            />
+                          </div>
+                          <button
+                            onClick={cancelSegmentation}
+                            className="text-sm text-gray-500 hover:text-gray-700"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                      
                       <div className="bg-blue-50 p-4 rounded-lg">
                         <h4 className="font-medium text-blue-900 mb-2">What we'll detect:</h4>
                         <ul className="text-sm text-blue-700 space-y-1">
-                          <li>• Exterior walls</li>
-                          <li>• Roof and roofing materials</li>
-                          <li>• Windows and glass</li>
-                          <li>• Doors and entryways</li>
-                          <li>• Trim and architectural details</li>
-                          <li>• Landscape elements</li>
+                          {getSceneProfile(sceneProfile).classes
+                            .filter(segClass => segClass.id !== 0) // Exclude background
+                            .map(segClass => (
+                              <li key={segClass.id}>• {segClass.displayName}</li>
+                            ))}
                         </ul>
                       </div>
                     </div>
@@ -298,25 +616,64 @@ function App() {
                 ) : (
                   /* Show segmentation results for area selection */
                   <div className="space-y-6">
+                    {segmentation.backend && (
+                      <div className={`text-sm p-3 rounded-md ${
+                        segmentation.backend === segmentationBackend
+                          ? 'bg-gray-50 text-gray-600'
+                          : 'bg-yellow-50 text-yellow-800'
+                      }`}>
+                        Detected with {getBackend(segmentation.backend)?.displayName}
+                        {segmentation.backend !== segmentationBackend && (
+                          <span> ({getBackend(segmentationBackend)?.displayName} was unavailable)</span>
+                        )}
+                      </div>
+                    )}
+                    
                     {uploadedImage && (
                       <SegmentationViewer
                         imageUrl={uploadedImage.url}
                         imageWidth={uploadedImage.width}
                         imageHeight={uploadedImage.height}
                         segmentationResult={segmentation}
+                        sceneProfile={sceneProfile}
+                        classes={classes}
                         onAreaSelect={handleAreaSelect}
                         selectedAreas={selectedAreas}
+                        onInstanceSelect={toggleSelectedInstance}
+                        selectedInstances={selectedInstances}
+                        onMaskChange={replaceMask}
+                      />
+                    )}
+                    
+                    {uploadedImage && segmentation.masks.length > 0 && (
+                      <MaskCleanupPanel
+                        masks={segmentation.masks}
+                        classes={classes}
+                        imageWidth={uploadedImage.width}
+                        imageHeight={uploadedImage.height}
+                        onMaskChange={replaceMask}
+                        defaultClassId={selectedAreas[0]}
+                      />
+                    )}
+                    
+                    {uploadedImage && segmentation.masks.length > 0 && (
+                      <MaskOperationsPanel
+                        masks={segmentation.masks}
+                        classes={classes}
+                        selectedInstances={selectedInstances}
+                        onMaskSelection={applyMaskSelection}
+                        defaultClassId={selectedAreas[0]}
                       />
                     )}
                     
                     {/* Proceed to Color Selection */}
-                    {selectedAreas.length > 0 && (
+                    {selectedMasks.length > 0 && (
                       <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                         <h4 className="font-medium text-green-900 mb-2">
                           Ready for Color Selection
                         </h4>
                         <p className="text-sm text-green-700 mb-3">
-                          You've selected {selectedAreas.length} area{selectedAreas.length !== 1 ? 's' : ''} to recolor. 
+                          You've selected {selectedMasks.length} area{selectedMasks.length !== 1 ? 's' : ''} to recolor. 
                           Ready to choose colors?
                         </p>
                         <button 
@@ -337,21 +694,51 @@ function App() {
                       imageUrl={uploadedImage.url}
                       imageWidth={uploadedImage.width}
                       imageHeight={uploadedImage.height}
-                      onSelectionComplete={handleManualSelection}
-                      selectedTool={selectedTool as 'brush' | 'eraser' | 'polygon'}
+                      onMaskSelection={applyMaskSelection}
+                      selectedTool={selectedTool}
                       brushSize={brushSize}
                       selectedClass={selectedClass}
+                      classes={classes}
+                      selectionMode={selectionMode}
+                      wandOptions={wandOptions}
+                      scribbleLabel={scribbleLabel}
+                      graphCutOptions={graphCutOptions}
+                      masks={segmentation?.masks}
+                      onUndo={handleUndo}
+                      canUndo={historyIndex > 0}
+                      restoreCount={restoreCount}
+                    />
+                  )}
+                  
+                  {uploadedImage && segmentation && segmentation.masks.length > 0 && (
+                    <MaskCleanupPanel
+                      masks={segmentation.masks}
+                      classes={classes}
+                      imageWidth={uploadedImage.width}
+                      imageHeight={uploadedImage.height}
+                      onMaskChange={replaceMask}
+                      defaultClassId={selectedClass}
+                    />
+                  )}
+                  
+                  {uploadedImage && segmentation && segmentation.masks.length > 0 && (
+                    <MaskOperationsPanel
+                      masks={segmentation.masks}
+                      classes={classes}
+                      selectedInstances={selectedInstances}
+                      onMaskSelection={applyMaskSelection}
+                      defaultClassId={selectedClass}
                     />
                   )}
                   
                   {/* Proceed to Color Selection */}
-                  {selectedAreas.length > 0 && (
+                  {selectedMasks.length > 0 && (
                     <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                       <h4 className="font-medium text-green-900 mb-2">
                         Ready for Color Selection
                       </h4>
                       <p className="text-sm text-green-700 mb-3">
-                        You've selected {selectedAreas.length} area{selectedAreas.length !== 1 ? 's' : ''} to recolor. 
+                        You've selected {selectedMasks.length} area{selectedMasks.length !== 1 ? 's' : ''} to recolor. 
                         Ready to choose colors?
                       </p>
                       <button 
@@ -365,6 +752,14 @@ function App() {
                 </div>
               )}
             </div>
+
+            <HistoryPanel
+              history={project.history}
+              historyIndex={historyIndex}
+              onUndo={handleUndo}
+              onRedo={handleRedo}
+              onJump={handleHistoryJump}
+            />
           </div>
         ) : (
           /* Color selection step */
@@ -404,47 +799,33 @@ function App() {
                       imageUrl={uploadedImage.url}
                       width={800}
                       height={600}
-                      selectedColor={selectedColor}
-                      colorIntensity={colorIntensity}
-                      selectedMasks={selectedMasks}
+                      colorScheme={colorScheme}
+                      recolorMode={recolorMode}
+                      lightnessMode={lightnessMode}
+                      featherRadius={featherRadius}
+                      edgeContrast={edgeContrast}
+                      selectedMasks={layerMasks}
+                      layers={layers}
                       onColorChange={handleFinalColorChange}
                     />
                   )}
                 </div>
                 
-                {/* Color Picker */}
+                {/* Color Scheme & Picker */}
                 <div className="space-y-6">
-                  <ColorPicker
-                    initialColor={selectedColor}
-                    onColorChange={handleColorChange}
-                    onIntensityChange={handleColorIntensityChange}
-                    intensity={colorIntensity}
-                    disabled={selectedMasks.length === 0}
-                  />
-                  
-                  {/* Selected Areas Info */}
-                  {selectedMasks.length > 0 ? (
-                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                      <h4 className="font-medium text-blue-900 mb-2">
-                        Selected Areas ({selectedMasks.length})
-                      </h4>
-                      <div className="space-y-2">
-                        {selectedMasks.map((mask, index) => (
-                          <div key={index} className="flex items-center space-x-2 text-sm">
-                            <div 
-                              className="w-3 h-3 rounded border border-gray-300"
-                              style={{ backgroundColor: segmentation?.classes.find(c => c.id === mask.classId)?.color }}
-                            />
-                            <span className="text-blue-700">
-                              {segmentation?.classes.find(c => c.id === mask.classId)?.displayName}
-                            </span>
-                            <span className="text-blue-500">
-                              ({Math.round(mask.confidence * 100)}% confidence)
-                            </span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
+                  {/* Layers */}
+                  {layers.length > 0 ? (
+                    <LayersPanel
+                      layers={layers}
+                      classes={classes}
+                      activeLayerId={activeRegionKey}
+                      selectedLayerIds={selectedMasks.map(mask => getRegionKey(mask.classId, mask.instanceId))}
+                      onActivate={setActiveRegion}
+                      onUpdate={updateSelection}
+                      onMove={moveSelection}
+                      onRemove={removeSelection}
+                      onClearColor={removeRegionColor}
+                    />
                   ) : (
                     <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                       <h4 className="font-medium text-yellow-900 mb-2">
@@ -462,6 +843,118 @@ function App() {
                     </div>
                   )}
                   
+                  <ColorPicker
+                    sceneProfile={sceneProfile}
+                    key={`${activeRegionKey ?? 'none'}:${restoreCount}`} // Reload the picker's color when switching areas or undoing
+                    initialColor={activeRegionColor?.color ?? DEFAULT_REGION_COLOR}
+                    onColorChange={handleColorChange}
+                    onIntensityChange={handleColorIntensityChange}
+                    intensity={activeRegionColor?.intensity ?? 1}
+                    disabled={!activeRegionKey}
+                  />
+
+                  <HistoryPanel
+                    history={project.history}
+                    historyIndex={historyIndex}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onJump={handleHistoryJump}
+                  />
+                  
+                  {/* Paint Finish */}
+                  <div className="bg-white rounded-lg shadow p-4 space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Finish
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {SHEENS.map(({ sheen, label }) => (
+                        <button
+                          key={label}
+                          onClick={() => handleSheenChange(sheen)}
+                          disabled={!activeRegionKey}
+                          className={`py-2 px-2 rounded-md text-xs font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            activeRegionColor?.sheen === sheen
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  
+                  {/* Recolor Mode */}
+                  <div className="bg-white rounded-lg shadow p-4 space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Color Rendering
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {RECOLOR_MODES.map(({ mode, label }) => (
+                        <button
+                          key={mode}
+                          onClick={() => setRecolorMode(mode)}
+                          className={`py-2 px-3 rounded-md text-sm font-medium border transition-colors ${
+                            recolorMode === mode
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      OKLab and CIELAB keep shading perceptually even; HSL is the original method.
+                    </p>
+                    <label className="flex items-start space-x-2 pt-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={lightnessMode === 'match'}
+                        onChange={(e) => setLightnessMode(e.target.checked ? 'match' : 'preserve')}
+                        className="mt-0.5 rounded border-gray-300"
+                      />
+                      <span>
+                        Match paint lightness
+                        <span className="block text-xs text-gray-500">
+                          Dark and light colors shift the area's brightness while keeping shadows and texture
+                        </span>
+                      </span>
+                    </label>
+                    <div className="pt-2">
+                      <div className="flex items-center justify-between">
+                        <label className="block text-sm text-gray-700">Edge softness</label>
+                        <span className="text-sm text-gray-500">{featherRadius}px</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="8"
+                        value={featherRadius}
+                        onChange={(e) => setFeatherRadius(parseInt(e.target.value))}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <label className="block text-sm text-gray-700">Snap to photo edges</label>
+                        <span className="text-sm text-gray-500">{Math.round(edgeContrast * 100)}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={edgeContrast}
+                        onChange={(e) => setEdgeContrast(parseFloat(e.target.value))}
+                        className="w-full"
+                      />
+                      <p className="text-xs text-gray-500">
+                        Edges are applied with the final full-resolution render.
+                      </p>
+                    </div>
+                  </div>
+                  
                   {/* Export Options */}
                   {finalImageData && (
                     <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -500,4 +993,16 @@ function App() {
   )
 }
 
+// Whether two saves hold the same values; session and view are compared field by field
+function isSameSave(a: ProjectSave, b: ProjectSave): boolean {
+  const { view: viewA, ...sessionA } = a.session
+  const { view: viewB, ...sessionB } = b.session
+  return isShallowEqual(a.project, b.project) && isShallowEqual(sessionA, sessionB) && isShallowEqual(viewA, viewB)
+}
+
+function isShallowEqual<T extends object>(a: T, b: T): boolean {
+  const keys = Object.keys(a) as (keyof T)[]
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key])
+}
+
 export default App
\ No newline at end of file
@@ -1,18 +1,24 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react'
 import { Stage, Layer, Image as KonvaImage } from 'react-konva'
 import Konva from 'konva'
-import { Tool, Color } from '../types'
-import { colorProcessor, ColorChangeOptions } from '../services/colorProcessor'
+import { Tool, ColorScheme, Selection } from '../types'
+import { ColorChangeOptions, LightnessMode, RecolorMode } from '../services/colorProcessor'
+import { processingWorker, isAbortError } from '../services/processingWorker'
 import { SegmentationMask } from '../services/segmentation'
+import { buildSchemeLabels, getRegionKey, SchemeLabels } from '../utils/colorScheme'
 
 interface CanvasEditorProps {
   imageUrl: string
   width: number
   height: number
   activeTool?: Tool
-  selectedColor?: Color
-  colorIntensity?: number
-  selectedMasks?: SegmentationMask[]
+  colorScheme?: ColorScheme
+  recolorMode?: RecolorMode
+  lightnessMode?: LightnessMode
+  featherRadius?: number
+  edgeContrast?: number
+  selectedMasks?: SegmentationMask[] // Composited bottom to top
+  layers?: Selection[] // Layer settings for the masks, by region key
   onSelectionChange?: (selection: unknown) => void
   onColorChange?: (newImageData: globalThis.ImageData) => void
 }
@@ -21,9 +27,13 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
   imageUrl,
   width,
   height,
-  selectedColor,
-  colorIntensity = 1,
+  colorScheme = {},
+  recolorMode = 'hsl',
+  lightnessMode = 'preserve',
+  featherRadius,
+  edgeContrast,
   selectedMasks = [],
+  layers = [],
   onColorChange
 }) => {
   const stageRef = useRef<Konva.Stage>(null)
@@ -43,6 +53,11 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
   }, [finalImage])
   const [zoom, setZoom] = useState(1)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [processingProgress, setProcessingProgress] = useState(0)
+  // In-flight recolor job; a newer color or selection change aborts it
+  const colorJobRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => colorJobRef.current?.abort(), [])
 
   // Load original image and extract image data
   React.useEffect(() => {
@@ -76,108 +91,76 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
     }
   }, [imageUrl, width, height])
 
-  // Create combined mask from selected segmentation masks
-  const createCombinedMask = useCallback((masks: SegmentationMask[]): Uint8Array => {
+  // Label every selected mask with its region's color from the scheme
+  const createSchemeLabels = useCallback((masks: SegmentationMask[], blendEdges: boolean): SchemeLabels | null => {
     if (masks.length === 0 || !originalImageData) {
       console.log('No masks or image data:', { masks: masks.length, hasImageData: !!originalImageData })
-      return new Uint8Array(0)
+      return null
     }
 
     const { width: imgWidth, height: imgHeight } = originalImageData
-    const combinedMask = new Uint8Array(imgWidth * imgHeight)
-    
-    console.log('Creating combined mask:', { 
-      maskCount: masks.length, 
+    const schemeLabels = buildSchemeLabels(masks, colorScheme, imgWidth, imgHeight, {
+      preserveTexture: true,
+      blendEdges,
+      mode: recolorMode,
+      lightness: lightnessMode,
+      featherRadius,
+      edgeContrast
+    }, layers)
+
+    console.log('Created scheme labels:', {
+      maskCount: masks.length,
       imageSize: `${imgWidth}x${imgHeight}`,
-      maskClasses: masks.map(m => m.classId)
-    })
-    
-    let totalPixels = 0
-    let minX = imgWidth, maxX = 0, minY = imgHeight, maxY = 0
-    
-    masks.forEach(mask => {
-      let maskPixels = 0
-      for (let i = 0; i < mask.data.length; i++) {
-        if (mask.data[i] > 0) {
-          combinedMask[i] = mask.classId
-          maskPixels++
-          totalPixels++
-          
-          // Calculate bounding box of the mask
-          const x = i % imgWidth
-          const y = Math.floor(i / imgWidth)
-          minX = Math.min(minX, x)
-          maxX = Math.max(maxX, x)
-          minY = Math.min(minY, y)
-          maxY = Math.max(maxY, y)
-        }
-      }
-      console.log(`Mask ${mask.classId} (${mask.className}): ${maskPixels} pixels`)
+      regions: schemeLabels.regions.map(region => region.newColor)
     })
-    
-    console.log('Mask bounding box:', {
-      topLeft: `(${minX}, ${minY})`,
-      bottomRight: `(${maxX}, ${maxY})`,
-      width: maxX - minX + 1,
-      height: maxY - minY + 1,
-      relativePosition: {
-        left: `${((minX / imgWidth) * 100).toFixed(1)}%`,
-        top: `${((minY / imgHeight) * 100).toFixed(1)}%`,
-        right: `${((maxX / imgWidth) * 100).toFixed(1)}%`,
-        bottom: `${((maxY / imgHeight) * 100).toFixed(1)}%`
-      }
-    })
-    
-    console.log('Total selected pixels:', totalPixels)
-    return combinedMask
-  }, [originalImageData])
+
+    return schemeLabels.regions.length > 0 ? schemeLabels : null
+  }, [originalImageData, colorScheme, recolorMode, lightnessMode, featherRadius, edgeContrast, layers])
+
+  // Regions that currently have a color assigned and are shown
+  const coloredMasks = selectedMasks.filter(mask => {
+    const regionKey = getRegionKey(mask.classId, mask.instanceId)
+    return colorScheme[regionKey] && layers.find(layer => layer.id === regionKey)?.visible !== false
+  })
 
   // Apply color change with real-time preview
   const applyColorChange = useCallback(async (usePreview: boolean = true) => {
     console.log('applyColorChange called:', { 
       usePreview, 
       hasImageData: !!originalImageData, 
-      hasColor: !!selectedColor, 
       maskCount: selectedMasks.length,
-      colorHex: selectedColor?.hex,
-      intensity: colorIntensity
+      colorScheme
     })
 
-    if (!originalImageData || !selectedColor || selectedMasks.length === 0) {
+    if (!originalImageData || selectedMasks.length === 0) {
       console.log('Skipping color change - missing requirements')
       return
     }
 
+    colorJobRef.current?.abort()
+    const colorJob = new AbortController()
+    colorJobRef.current = colorJob
+
     setIsProcessing(true)
+    setProcessingProgress(0)
     
     try {
-      const combinedMask = createCombinedMask(selectedMasks)
+      const schemeLabels = createSchemeLabels(selectedMasks, !usePreview) // Skip blending for faster preview
       
-      if (combinedMask.length === 0) {
-        console.log('Empty combined mask, skipping processing')
-        setIsProcessing(false)
+      if (!schemeLabels) {
+        console.log('No colored regions, skipping processing')
+        setPreviewImageData(null)
         return
       }
-      
-      const colorOptions: ColorChangeOptions = {
-        newColor: selectedColor.hex,
-        preserveTexture: true,
-        blendEdges: !usePreview, // Skip blending for faster preview
-        intensity: colorIntensity
-      }
-
-      console.log('Color options:', {
-        originalColor: selectedColor.hex,
-        intensity: colorIntensity,
-        preserveTexture: colorOptions.preserveTexture,
-        blendEdges: colorOptions.blendEdges
-      })
 
-      console.log('Starting color processing with options:', colorOptions)
+      console.log('Starting color processing with regions:', schemeLabels.regions)
 
-      const result = usePreview 
-        ? await colorProcessor.createPreview(originalImageData, combinedMask, colorOptions, 0.5)
-        : await colorProcessor.applyColorChange(originalImageData, combinedMask, colorOptions)
+      const result = await processingWorker.recolor(originalImageData, schemeLabels.labels, schemeLabels.regions, {
+        previewScale: usePreview ? 0.5 : undefined,
+        coverage: schemeLabels.coverage,
+        signal: colorJob.signal,
+        onProgress: setProcessingProgress
+      })
 
       console.log('Color processing completed:', { 
         processingTime: result.processingTime,
@@ -246,16 +229,21 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
       
       console.log(`Color processing took ${result.processingTime.toFixed(2)}ms`)
     } catch (error) {
-      console.error('Color processing failed:', error)
+      if (!isAbortError(error)) {
+        console.error('Color processing failed:', error)
+      }
     } finally {
-      setIsProcessing(false)
+      if (colorJobRef.current === colorJob) {
+        colorJobRef.current = null
+        setIsProcessing(false)
+      }
     }
-  }, [originalImageData, selectedColor, selectedMasks, colorIntensity, createCombinedMask, onColorChange])
+  }, [originalImageData, selectedMasks, colorScheme, createSchemeLabels, onColorChange])
 
   // Real-time preview updates when color or intensity changes
   useEffect(() => {
     const debounceTimer = setTimeout(() => {
-      if (selectedColor && selectedMasks.length > 0) {
+      if (selectedMasks.length > 0) {
         applyColorChange(true) // Create preview
       } else {
         setPreviewImageData(null) // Clear preview if no selection
@@ -263,7 +251,7 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
     }, 100) // 100ms debounce for smooth real-time updates
 
     return () => clearTimeout(debounceTimer)
-  }, [selectedColor, colorIntensity, selectedMasks, applyColorChange])
+  }, [selectedMasks, applyColorChange])
 
   // Apply final high-resolution color change
   const applyFinalColorChange = useCallback(() => {
@@ -384,41 +372,32 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
                 }}
               />
             )}
-            
-            {/* Debug overlay to show mask location - only when processing for debugging */}
-            {isProcessing && selectedMasks.length > 0 && originalImageData && (
-              <rect
-                x={0}
-                y={0}
-                width={width * 0.3} // Show in top-left corner where the mask apparently is
-                height={height * 0.3}
-                fill="rgba(255, 0, 0, 0.3)"
-                stroke="red"
-                strokeWidth={2}
-                listening={false}
-              />
-            )}
           </Layer>
         </Stage>
       </div>
       
       {/* Controls */}
       <div className="absolute top-4 left-4 space-y-2">
-        {selectedMasks.length > 0 && selectedColor && !finalImage && (
+        {selectedMasks.length > 0 && !finalImage && (
           <div className="bg-white rounded-lg shadow p-3 space-y-2">
             <div className="flex items-center space-x-2">
-              <div 
-                className="w-4 h-4 rounded border border-gray-300"
-                style={{ backgroundColor: selectedColor.hex }}
-              />
+              <div className="flex -space-x-1">
+                {coloredMasks.map(mask => (
+                  <div
+                    key={getRegionKey(mask.classId, mask.instanceId)}
+                    className="w-4 h-4 rounded border border-gray-300"
+                    style={{ backgroundColor: colorScheme[getRegionKey(mask.classId, mask.instanceId)].color.hex }}
+                  />
+                ))}
+              </div>
               <span className="text-sm font-medium text-gray-700">
-                {selectedMasks.length} area{selectedMasks.length !== 1 ? 's' : ''} selected
+                {coloredMasks.length} of {selectedMasks.length} area{selectedMasks.length !== 1 ? 's' : ''} colored
               </span>
             </div>
             
             <button
               onClick={applyFinalColorChange}
-              disabled={isProcessing}
+              disabled={isProcessing || coloredMasks.length === 0}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-medium py-2 px-3 rounded transition-colors"
             >
               {isProcessing ? 'Processing...' : 'Apply Color Change'}
@@ -435,10 +414,27 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
                 }
                 
                 if (!originalImageData) return
+                colorJobRef.current?.abort()
+                const colorJob = new AbortController()
+                colorJobRef.current = colorJob
                 setIsProcessing(true)
+                setProcessingProgress(0)
                 
-                const combinedMask = createCombinedMask(selectedMasks)
-                colorProcessor.applyColorChange(originalImageData, combinedMask, testColorOptions)
+                // Every selected area goes red, whatever the scheme says
+                const { labels, regions } = buildSchemeLabels(
+                  selectedMasks,
+                  Object.fromEntries(selectedMasks.map(mask => [
+                    getRegionKey(mask.classId, mask.instanceId),
+                    { color: { hue: 0, saturation: 100, lightness: 50, hex: '#FF0000' }, intensity: 1 }
+                  ])),
+                  originalImageData.width,
+                  originalImageData.height,
+                  { preserveTexture: false, blendEdges: false }
+                )
+                processingWorker.recolor(originalImageData, labels, regions.map(() => testColorOptions), {
+                  signal: colorJob.signal,
+                  onProgress: setProcessingProgress
+                })
                   .then(result => {
                     console.log('Test color applied - should be bright red!')
                     const canvas = document.createElement('canvas')
@@ -495,7 +491,17 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
                     finalImg.src = dataURL
                     onColorChange?.(result.imageData)
                   })
-                  .finally(() => setIsProcessing(false))
+                  .catch(error => {
+                    if (!isAbortError(error)) {
+                      console.error('🔴 RED TEST processing failed:', error)
+                    }
+                  })
+                  .finally(() => {
+                    if (colorJobRef.current === colorJob) {
+                      colorJobRef.current = null
+                      setIsProcessing(false)
+                    }
+                  })
               }}
               disabled={isProcessing}
               className="w-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white text-sm font-medium py-1 px-3 rounded transition-colors"
@@ -567,7 +573,9 @@ export const CanvasEditor: React.FC<CanvasEditorProps> = ({
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-2">
             <div className="flex items-center space-x-2">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-              <span className="text-sm text-blue-700">Processing color change...</span>
+              <span className="text-sm text-blue-700">
+                Processing color change... {Math.round(processingProgress * 100)}%
+              </span>
             </div>
           </div>
         )}
@@ -1,6 +1,19 @@
 import React, { useState, useCallback, useEffect } from 'react'
 import { Color } from '../types'
 import { colorProcessor } from '../services/colorProcessor'
+import { DEFAULT_SCENE_PROFILE, getSceneProfile, SceneProfileId } from '../services/segmentation/profiles'
+
+// Shown after the scene's popular colors
+const ACCENT_COLORS = [
+  '#FFFFFF', // White
+  '#228B22', // Forest Green
+  '#4682B4', // Steel Blue
+  '#B22222', // Fire Brick
+  '#800080', // Purple
+  '#FF6347', // Tomato
+  '#FFD700', // Gold
+  '#FF4500'  // Orange Red
+]
 
 interface ColorPickerProps {
   initialColor?: Color
@@ -9,6 +22,7 @@ interface ColorPickerProps {
   intensity?: number
   originalColor?: string
   disabled?: boolean
+  sceneProfile?: SceneProfileId
 }
 
 export const ColorPicker: React.FC<ColorPickerProps> = ({
@@ -17,38 +31,22 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
   onIntensityChange,
   intensity = 1,
   originalColor,
-  disabled = false
+  disabled = false,
+  sceneProfile = DEFAULT_SCENE_PROFILE
 }) => {
   const [color, setColor] = useState<Color>(initialColor)
   const [recommendations, setRecommendations] = useState<string[]>([])
 
-  // Popular house colors for quick selection
-  const popularColors = [
-    '#F5F5DC', // Beige
-    '#FFFFFF', // White
-    '#D2B48C', // Tan
-    '#8B7355', // Dark Khaki
-    '#696969', // Dim Gray
-    '#2F4F4F', // Dark Slate Gray
-    '#8B4513', // Saddle Brown
-    '#CD853F', // Peru
-    '#A0522D', // Sienna
-    '#228B22', // Forest Green
-    '#4682B4', // Steel Blue
-    '#B22222', // Fire Brick
-    '#800080', // Purple
-    '#FF6347', // Tomato
-    '#FFD700', // Gold
-    '#FF4500'  // Orange Red
-  ]
+  // Popular colors for the scene for quick selection
+  const popularColors = [...getSceneProfile(sceneProfile).popularColors, ...ACCENT_COLORS]
 
   // Update recommendations when original color changes
   useEffect(() => {
     if (originalColor) {
-      const newRecommendations = colorProcessor.getColorRecommendations(originalColor)
+      const newRecommendations = colorProcessor.getColorRecommendations(originalColor, sceneProfile)
       setRecommendations(newRecommendations)
     }
-  }, [originalColor])
+  }, [originalColor, sceneProfile])
 
   const hslToHex = (h: number, s: number, l: number): string => {
     s /= 100
@@ -265,7 +263,7 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
 
       {/* Popular Colors */}
       <div className="space-y-3">
-        <h4 className="text-sm font-medium text-gray-700">Popular House Colors</h4>
+        <h4 className="text-sm font-medium text-gray-700">Popular {sceneProfile === 'interior' ? 'Room' : 'House'} Colors</h4>
         <div className="grid grid-cols-8 gap-2">
           {popularColors.map((hexColor, index) => (
             <button
@@ -0,0 +1,146 @@
+import React, { useState } from 'react'
+import { Group, Line, Circle } from 'react-konva'
+import Konva from 'konva'
+
+interface EditablePolygonProps {
+  points: number[] // Flat image-space vertices
+  color: string
+  scale: number // Stage scale, so handles keep a constant screen size
+  dashed?: boolean
+  editable: boolean // Reacts to the pointer at all
+  selected: boolean
+  selectedVertex: number | null
+  onSelect: () => void
+  onVertexSelect: (index: number) => void
+  onPreview: (points: number[]) => void // While dragging
+  onChange: (points: number[]) => void // When an edit is finished
+}
+
+// Lets the stage tell clicks on a polygon apart from clicks that add points
+export const EDITABLE_POLYGON_NAME = 'editable-polygon'
+
+// Screen pixels within which a click on the outline inserts a vertex
+const INSERT_DISTANCE = 8
+const HANDLE_RADIUS = 5
+
+// A completed polygon on the manual selection stage. Once selected its
+// vertices can be dragged, the outline clicked to insert a vertex, and the
+// whole shape dragged to move it.
+export const EditablePolygon: React.FC<EditablePolygonProps> = ({
+  points,
+  color,
+  scale,
+  dashed,
+  editable,
+  selected,
+  selectedVertex,
+  onSelect,
+  onVertexSelect,
+  onPreview,
+  onChange
+}) => {
+  // Vertices as they are being dragged, before the edit is committed
+  const [draft, setDraft] = useState<number[] | null>(null)
+  const shown = draft ?? points
+
+  const handleOutlineClick = (e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (!selected) {
+      onSelect()
+      return
+    }
+
+    const pos = e.target.getRelativePointerPosition()
+    if (!pos) return
+
+    const { segment, distance } = findNearestSegment(points, pos.x, pos.y)
+    if (distance * scale > INSERT_DISTANCE) return
+
+    const insertAt = (segment + 1) * 2
+    onChange([...points.slice(0, insertAt), pos.x, pos.y, ...points.slice(insertAt)])
+    onVertexSelect(segment + 1)
+  }
+
+  const getShiftedPoints = (group: Konva.Node) =>
+    points.map((value, i) => value + (i % 2 === 0 ? group.x() : group.y()))
+
+  const getDraggedVertex = (e: Konva.KonvaEventObject<DragEvent>, index: number) => {
+    const next = [...points]
+    next[index * 2] = e.target.x()
+    next[index * 2 + 1] = e.target.y()
+    return next
+  }
+
+  return (
+    <Group
+      name={EDITABLE_POLYGON_NAME}
+      draggable={selected}
+      onDragMove={(e) => {
+        if (e.target === e.currentTarget) onPreview(getShiftedPoints(e.target))
+      }}
+      onDragEnd={(e) => {
+        if (e.target !== e.currentTarget) return
+        const moved = getShiftedPoints(e.target)
+        e.target.position({ x: 0, y: 0 })
+        onChange(moved)
+      }}
+    >
+      <Line
+        points={shown}
+        stroke={color}
+        strokeWidth={selected ? 2 / scale : 1}
+        fill={selected ? `${color}33` : undefined}
+        hitStrokeWidth={(INSERT_DISTANCE * 2) / scale}
+        lineCap="round"
+        lineJoin="round"
+        closed
+        dash={dashed ? [6, 4] : undefined}
+        listening={editable}
+        onClick={handleOutlineClick}
+      />
+      {selected && Array.from({ length: shown.length / 2 }, (_, index) => (
+        <Circle
+          key={index}
+          x={shown[index * 2]}
+          y={shown[index * 2 + 1]}
+          radius={HANDLE_RADIUS / scale}
+          fill={selectedVertex === index ? color : '#FFFFFF'}
+          stroke={color}
+          strokeWidth={1.5 / scale}
+          draggable
+          onMouseDown={() => onVertexSelect(index)}
+          onDragMove={(e) => {
+            const next = getDraggedVertex(e, index)
+            setDraft(next)
+            onPreview(next)
+          }}
+          onDragEnd={(e) => {
+            setDraft(null)
+            onChange(getDraggedVertex(e, index))
+          }}
+        />
+      ))}
+    </Group>
+  )
+}
+
+// Closest edge of a closed polygon to a point; segment i runs from vertex i to i + 1
+function findNearestSegment(points: number[], x: number, y: number): { segment: number; distance: number } {
+  let nearest = { segment: 0, distance: Infinity }
+  const count = points.length / 2
+
+  for (let i = 0; i < count; i++) {
+    const x1 = points[i * 2]
+    const y1 = points[i * 2 + 1]
+    const x2 = points[((i + 1) % count) * 2]
+    const y2 = points[((i + 1) % count) * 2 + 1]
+
+    const lengthSquared = (x2 - x1) ** 2 + (y2 - y1) ** 2
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((x - x1) * (x2 - x1) + (y - y1) * (y2 - y1)) / lengthSquared))
+    const distance = Math.hypot(x - (x1 + t * (x2 - x1)), y - (y1 + t * (y2 - y1)))
+    if (distance < nearest.distance) {
+      nearest = { segment: i, distance }
+    }
+  }
+
+  return nearest
+}
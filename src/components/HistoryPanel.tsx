@@ -0,0 +1,76 @@
+import React from 'react'
+import { HistoryItem } from '../types'
+import { getHistoryItemSize } from '../utils/history'
+
+interface HistoryPanelProps {
+  history: HistoryItem[]
+  historyIndex: number // Steps currently applied
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history,
+  historyIndex,
+  onUndo,
+  onRedo,
+  onJump
+}) => {
+  const megabytes = history.reduce((total, item) => total + getHistoryItemSize(item), 0) / (1024 * 1024)
+
+  // Each row jumps to the session right after its step; the first row is the session before any
+  const rows = [
+    { id: 'start', label: 'Start', index: 0 },
+    ...history.map((item, i) => ({ id: item.id, label: item.action, index: i + 1 }))
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-md font-medium text-gray-900">History</h4>
+          <p className="text-xs text-gray-500">
+            {history.length} step{history.length !== 1 ? 's' : ''}, {megabytes.toFixed(1)} MB of mask changes
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={onUndo}
+            disabled={historyIndex === 0}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={historyIndex === history.length}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded disabled:opacity-50"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {rows.map(({ id, label, index }) => (
+          <button
+            key={id}
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-2 py-1 rounded text-sm transition-colors ${
+              index === historyIndex
+                ? 'bg-blue-50 text-blue-900 font-medium'
+                : index < historyIndex
+                  ? 'text-gray-700 hover:bg-gray-50'
+                  : 'text-gray-400 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+import React from 'react'
+import { findClass, SegmentationClass } from '../services/segmentation'
+import { BlendMode, LayerSource, Selection } from '../types'
+import { hexToHsl } from '../utils/colorUtils'
+
+interface LayersPanelProps {
+  layers: Selection[] // Bottom to top
+  classes: SegmentationClass[]
+  activeLayerId: string | null // Layer the color picker edits
+  selectedLayerIds: string[] // Areas and pieces picked in the segmentation step
+  onActivate: (id: string) => void
+  onUpdate: (id: string, updates: Partial<Selection>) => void
+  onMove: (id: string, toIndex: number) => void
+  onRemove: (id: string) => void
+  onClearColor: (id: string) => void
+}
+
+const BLEND_MODES: { id: BlendMode; name: string }[] = [
+  { id: 'normal', name: 'Normal' },
+  { id: 'multiply', name: 'Multiply' },
+  { id: 'screen', name: 'Screen' },
+  { id: 'overlay', name: 'Overlay' },
+  { id: 'soft-light', name: 'Soft Light' }
+]
+
+const SOURCE_LABELS: Record<LayerSource, string> = {
+  ai: 'AI',
+  manual: 'Manual',
+  instance: 'Piece'
+}
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  classes,
+  activeLayerId,
+  selectedLayerIds,
+  onActivate,
+  onUpdate,
+  onMove,
+  onRemove,
+  onClearColor
+}) => {
+  // Listed top first, like an image editor
+  const rows = layers.map((layer, index) => ({ layer, index })).reverse()
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div>
+        <h4 className="text-md font-medium text-gray-900">Layers ({layers.length})</h4>
+        <p className="text-xs text-gray-500">Upper layers cover lower ones. Pick a layer, then choose its color below.</p>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map(({ layer, index }) => {
+          const isActive = layer.id === activeLayerId
+          const isSelected = selectedLayerIds.includes(layer.id)
+          const segClass = findClass(classes, layer.classId)
+
+          return (
+            <div
+              key={layer.id}
+              onClick={() => onActivate(layer.id)}
+              className={`p-2 rounded-md border cursor-pointer transition-colors ${
+                isActive ? 'border-blue-500 bg-blue-50' : isSelected ? 'border-blue-200' : 'border-gray-200 hover:bg-gray-50'
+              } ${layer.visible ? '' : 'opacity-60'}`}
+            >
+              <div className="flex items-center space-x-2 text-sm">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onUpdate(layer.id, { visible: !layer.visible })
+                  }}
+                  title={layer.visible ? 'Hide layer' : 'Show layer'}
+                  className="w-6 text-center"
+                >
+                  {layer.visible ? '👁️' : '🚫'}
+                </button>
+                <div
+                  className="w-3 h-3 rounded border border-gray-300 flex-shrink-0"
+                  style={{ backgroundColor: segClass?.color }}
+                />
+                <input
+                  value={layer.name}
+                  onChange={(e) => onUpdate(layer.id, { name: e.target.value })}
+                  onClick={(e) => e.stopPropagation()}
+                  title={isSelected ? 'Selected area' : undefined}
+                  className={`flex-1 min-w-0 bg-transparent px-1 rounded border border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none ${
+                    isSelected ? 'font-medium' : ''
+                  }`}
+                />
+                <span className="text-xs text-gray-500">{SOURCE_LABELS[layer.source]}</span>
+                <input
+                  type="color"
+                  value={layer.color?.hex ?? '#FFFFFF'}
+                  onChange={(e) => onUpdate(layer.id, { color: hexToHsl(e.target.value) })}
+                  onClick={(e) => e.stopPropagation()}
+                  title={layer.color ? layer.color.hex : 'No color yet'}
+                  className="w-6 h-6 rounded border border-gray-300 cursor-pointer"
+                />
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onUpdate(layer.id, { locked: !layer.locked })
+                  }}
+                  title={layer.locked ? 'Unlock mask edits' : 'Lock mask against edits'}
+                  className="w-6 text-center"
+                >
+                  {layer.locked ? '🔒' : '🔓'}
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onMove(layer.id, index + 1)
+                  }}
+                  disabled={index === layers.length - 1}
+                  title="Move up"
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onMove(layer.id, index - 1)
+                  }}
+                  disabled={index === 0}
+                  title="Move down"
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onRemove(layer.id)
+                  }}
+                  disabled={layer.locked}
+                  title={layer.instanceId ? 'Delete piece from its mask' : 'Delete layer and its mask'}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                >
+                  ×
+                </button>
+              </div>
+
+              {isActive && (
+                <div className="mt-2 grid grid-cols-2 gap-3" onClick={(e) => e.stopPropagation()}>
+                  <div>
+                    <div className="flex items-center justify-between">
+                      <label className="block text-xs text-gray-700">Opacity</label>
+                      <span className="text-xs text-gray-500">{Math.round(layer.opacity * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="100"
+                      value={Math.round(layer.opacity * 100)}
+                      onChange={(e) => onUpdate(layer.id, { opacity: parseInt(e.target.value) / 100 })}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 mb-1">Blend</label>
+                    <select
+                      value={layer.blendMode}
+                      onChange={(e) => onUpdate(layer.id, { blendMode: e.target.value as BlendMode })}
+                      className="w-full px-2 py-1 border border-gray-300 rounded-md text-xs"
+                    >
+                      {BLEND_MODES.map(mode => (
+                        <option key={mode.id} value={mode.id}>{mode.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {layer.color && (
+                    <button
+                      onClick={() => onClearColor(layer.id)}
+                      className="col-span-2 text-xs text-gray-500 hover:text-gray-700 text-left"
+                    >
+                      Clear color
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
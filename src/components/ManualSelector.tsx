@@ -1,32 +1,133 @@
-import React, { useRef, useState, useCallback } from 'react'
-import { Stage, Layer, Image as KonvaImage, Line } from 'react-konva'
+import React, { useRef, useState, useCallback, useEffect } from 'react'
+import { Stage, Layer, Image as KonvaImage, Line, Circle, Rect, Ellipse, Transformer } from 'react-konva'
 import Konva from 'konva'
+import { MaskSelection, ScribbleLabel, SelectionMode, SelectionTool } from '../types'
+import { findClass, SegmentationClass, SegmentationMask } from '../services/segmentation'
+import { magicWandSelect, MagicWandOptions } from '../utils/magicWand'
+import { rasterizeStroke, reapplySelection } from '../utils/maskUtils'
+import { computeEdgeCostMap, EdgeCostMap, findEdgePath, LIVE_WIRE_SEARCH_PIXELS } from '../utils/liveWire'
+import { GraphCutOptions, SCRIBBLE_BACKGROUND, SCRIBBLE_FOREGROUND } from '../utils/graphCut'
+import { colorProcessor } from '../services/colorProcessor'
+import { processingWorker, isAbortError } from '../services/processingWorker'
+import { EditablePolygon, EDITABLE_POLYGON_NAME } from './EditablePolygon'
+
+interface SelectorPath {
+  points: number[]
+  tool: string
+  size: number
+  classId: number
+  mode?: SelectionMode
+  // Class mask before this edit was applied (null when the class had no mask), used to re-edit outlines
+  previousMask?: Uint8Array | null
+}
+
+// A Smart Select stroke; each class keeps its own set so re-running refines that class
+interface Scribble {
+  points: number[]
+  size: number
+  label: ScribbleLabel
+  classId: number
+}
+
+type ShapeTool = 'rectangle' | 'ellipse' | 'freehand'
+
+// A drawn shape that can still be moved and resized before it is applied
+interface PendingShape {
+  tool: ShapeTool
+  points: number[] // Freehand outline, or the two drag corners of a rectangle or ellipse
+  mode: SelectionMode
+}
+
+// A class mask drawn as a colored, translucent canvas
+interface MaskOverlay {
+  classId: number
+  canvas: HTMLCanvasElement
+}
+
+const PENDING_SHAPE_NAME = 'pending-shape'
+// Paths drawn as plain outlines once applied
+const OUTLINE_TOOLS = ['lasso', 'rectangle', 'ellipse', 'freehand']
+// Outline vertices used to rasterize an ellipse
+const ELLIPSE_SEGMENTS = 128
+
+// Screen pixels within which a click lands on the lasso's first anchor
+const LASSO_CLOSE_DISTANCE = 8
+
+const SCRIBBLE_COLORS: Record<ScribbleLabel, string> = {
+  foreground: '#22C55E',
+  background: '#EF4444'
+}
 
 interface ManualSelectorProps {
   imageUrl: string
   imageWidth: number
   imageHeight: number
-  onSelectionComplete: (selection: { points: number[], classId: number }) => void
-  selectedTool: 'brush' | 'eraser' | 'polygon'
+  onMaskSelection: (selection: MaskSelection) => void
+  selectedTool: Exclude<SelectionTool, 'ai'>
   brushSize: number
   selectedClass: number
+  classes: SegmentationClass[]
+  selectionMode: SelectionMode
+  wandOptions: MagicWandOptions
+  scribbleLabel: ScribbleLabel
+  graphCutOptions: GraphCutOptions
+  masks?: SegmentationMask[] // Current class masks, shown under the drawing
+  onUndo: () => void // Steps back through the session history
+  canUndo: boolean
+  restoreCount: number // Changes whenever undo or redo restores the masks
 }
 
 export const ManualSelector: React.FC<ManualSelectorProps> = ({
   imageUrl,
   imageWidth,
   imageHeight,
-  onSelectionComplete,
+  onMaskSelection,
   selectedTool,
   brushSize,
-  selectedClass
+  selectedClass,
+  classes,
+  selectionMode,
+  wandOptions,
+  scribbleLabel,
+  graphCutOptions,
+  masks,
+  onUndo,
+  canUndo,
+  restoreCount
 }) => {
   const stageRef = useRef<Konva.Stage>(null)
   const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [imagePixels, setImagePixels] = useState<globalThis.ImageData | null>(null)
+  const [maskOverlays, setMaskOverlays] = useState<MaskOverlay[]>([])
   const [isDrawing, setIsDrawing] = useState(false)
   const [currentPath, setCurrentPath] = useState<number[]>([])
-  const [paths, setPaths] = useState<Array<{points: number[], tool: string, size: number, classId: number}>>([])
+  const [paths, setPaths] = useState<SelectorPath[]>([])
   const [polygonPoints, setPolygonPoints] = useState<number[]>([])
+  const [scribbles, setScribbles] = useState<Scribble[]>([])
+  const [strokeLabel, setStrokeLabel] = useState<ScribbleLabel>(scribbleLabel)
+  const [strokeMode, setStrokeMode] = useState<SelectionMode>('add') // Brush modifier keys
+  const [isCutting, setIsCutting] = useState(false)
+  const [cutError, setCutError] = useState<string | null>(null)
+  const cutJobRef = useRef<AbortController | null>(null)
+  const cutClassRef = useRef<number | null>(null) // Class the running cut will replace
+  const [lassoPoints, setLassoPoints] = useState<number[]>([]) // Snapped outline so far
+  const [lassoAnchors, setLassoAnchors] = useState<number[]>([])
+  const [livePath, setLivePath] = useState<number[]>([]) // Last anchor to the cursor
+  const edgeCostMapRef = useRef<EdgeCostMap | null>(null)
+  const liveFrameRef = useRef<number | null>(null)
+  const liveCursorRef = useRef({ x: 0, y: 0 })
+  const [editingIndex, setEditingIndex] = useState<number | null>(null) // Completed polygon being edited
+  const [selectedVertex, setSelectedVertex] = useState<number | null>(null)
+  // Class mask as the polygon being dragged would leave it; the store only sees the finished edit
+  const [editPreview, setEditPreview] = useState<MaskOverlay | null>(null)
+  const pendingEditRef = useRef<{ index: number; points: number[] } | null>(null)
+  const editFrameRef = useRef<number | null>(null)
+  const [pendingShape, setPendingShape] = useState<PendingShape | null>(null)
+  const pendingShapeRef = useRef<Konva.Shape>(null)
+  const transformerRef = useRef<Konva.Transformer>(null)
+  // Masks and restore count the drafts here were last checked against
+  const previousMasksRef = useRef(masks)
+  const restoreCountRef = useRef(restoreCount)
   
   const containerWidth = 800
   const containerHeight = 600
@@ -39,21 +140,375 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
     img.src = imageUrl
     img.onload = () => {
       setImage(img)
+
+      // Pixel access for color-based tools like the magic wand
+      const canvas = document.createElement('canvas')
+      canvas.width = imageWidth
+      canvas.height = imageHeight
+      const ctx = canvas.getContext('2d')!
+      ctx.drawImage(img, 0, 0, imageWidth, imageHeight)
+      setImagePixels(ctx.getImageData(0, 0, imageWidth, imageHeight))
+    }
+  }, [imageUrl, imageWidth, imageHeight])
+
+  // Render current class masks as translucent overlays
+  useEffect(() => {
+    setMaskOverlays((masks ?? []).map(mask => ({
+      classId: mask.classId,
+      canvas: createMaskOverlay(mask, getClassColor(classes, mask.classId))
+    })))
+    setEditPreview(null) // Swapped for the committed mask in the same render
+  }, [masks, classes])
+
+  useEffect(() => () => cutJobRef.current?.abort(), [])
+
+  // The edge cost map is built on first use of the magnetic lasso
+  useEffect(() => {
+    edgeCostMapRef.current = null
+  }, [imagePixels])
+
+  useEffect(() => () => {
+    if (liveFrameRef.current !== null) cancelAnimationFrame(liveFrameRef.current)
+  }, [])
+
+  const getEdgeCostMap = useCallback(() => {
+    if (!edgeCostMapRef.current && imagePixels) {
+      edgeCostMapRef.current = computeEdgeCostMap(imagePixels)
+    }
+    return edgeCostMapRef.current
+  }, [imagePixels])
+
+  const classScribbles = scribbles.filter(scribble => scribble.classId === selectedClass)
+
+  // Recompute the class region from all of its scribbles; the current mask
+  // seeds the color models so each run refines the last one
+  const runGraphCut = useCallback(async (classId: number, strokes: Scribble[], previousMask: Uint8Array | null) => {
+    if (!imagePixels || !strokes.some(stroke => stroke.label === 'foreground')) return
+
+    // Later strokes win where strokes overlap
+    const scribbleMap = new Uint8Array(imageWidth * imageHeight)
+    for (const stroke of strokes) {
+      const value = stroke.label === 'foreground' ? SCRIBBLE_FOREGROUND : SCRIBBLE_BACKGROUND
+      const strokeMask = rasterizeStroke(stroke.points, stroke.size, imageWidth, imageHeight)
+      for (let i = 0; i < strokeMask.length; i++) {
+        if (strokeMask[i]) scribbleMap[i] = value
+      }
+    }
+
+    cutJobRef.current?.abort()
+    const cutJob = new AbortController()
+    cutJobRef.current = cutJob
+    cutClassRef.current = classId
+    setIsCutting(true)
+    setCutError(null)
+
+    try {
+      const mask = await processingWorker.segmentFromScribbles(imagePixels, scribbleMap, graphCutOptions, {
+        previousMask: previousMask ?? undefined,
+        signal: cutJob.signal
+      })
+      onMaskSelection({ classId, mask, mode: 'replace' })
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Smart Select failed:', err)
+        setCutError(err instanceof Error ? err.message : 'Smart Select failed')
+      }
+    } finally {
+      if (cutJobRef.current === cutJob) {
+        cutJobRef.current = null
+        cutClassRef.current = null
+        setIsCutting(false)
+      }
+    }
+  }, [imagePixels, imageWidth, imageHeight, graphCutOptions, onMaskSelection])
+
+  const handleWandClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pos = e.target.getStage()?.getPointerPosition()
+    if (!pos || !imagePixels) return
+
+    const mask = magicWandSelect(imagePixels, pos.x / scale, pos.y / scale, wandOptions)
+    setPaths(prev => [...prev, {
+      points: [pos.x / scale, pos.y / scale],
+      tool: 'wand',
+      size: 1,
+      classId: selectedClass,
+      previousMask: getClassMask(masks, selectedClass)
+    }])
+    onMaskSelection({
+      classId: selectedClass,
+      mask,
+      mode: getSelectionModeFromEvent(e.evt, selectionMode)
+    })
+  }, [imagePixels, scale, wandOptions, selectedClass, selectionMode, masks, onMaskSelection])
+
+  // Add a closed outline (polygon or lasso) to the class mask, or cut it out
+  const applyOutline = useCallback((points: number[], tool: string, mode: SelectionMode) => {
+    setPaths(prev => [...prev, {
+      points,
+      tool,
+      size: 1,
+      classId: selectedClass,
+      mode,
+      previousMask: getClassMask(masks, selectedClass)
+    }])
+    onMaskSelection({
+      classId: selectedClass,
+      mask: colorProcessor.polygonToMask(points, imageWidth, imageHeight, 1),
+      mode
+    })
+  }, [selectedClass, masks, imageWidth, imageHeight, onMaskSelection])
+
+  const cancelLiveWire = useCallback(() => {
+    if (liveFrameRef.current !== null) {
+      cancelAnimationFrame(liveFrameRef.current)
+      liveFrameRef.current = null
+    }
+    setLivePath([])
+  }, [])
+
+  const resetLasso = useCallback(() => {
+    cancelLiveWire()
+    setLassoPoints([])
+    setLassoAnchors([])
+  }, [cancelLiveWire])
+
+  // A half-drawn lasso or unapplied shape doesn't carry over to other tools
+  useEffect(() => {
+    resetLasso()
+    setPendingShape(null)
+  }, [selectedTool, resetLasso])
+
+  // Snap the last stretch back to the first anchor and close the outline
+  const closeLasso = useCallback((mode: SelectionMode) => {
+    const costMap = getEdgeCostMap()
+    if (!costMap || lassoAnchors.length < 6) return // At least 3 anchors
+
+    const closing = findEdgePath(
+      costMap,
+      lassoPoints[lassoPoints.length - 2],
+      lassoPoints[lassoPoints.length - 1],
+      lassoAnchors[0],
+      lassoAnchors[1]
+    )
+    applyOutline([...lassoPoints, ...closing.slice(2)], 'lasso', mode)
+    resetLasso()
+  }, [getEdgeCostMap, lassoPoints, lassoAnchors, applyOutline, resetLasso])
+
+  const handleLassoClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pos = e.target.getStage()?.getPointerPosition()
+    const costMap = getEdgeCostMap()
+    if (!pos || !costMap) return
+
+    const x = pos.x / scale
+    const y = pos.y / scale
+    if (lassoPoints.length === 0) {
+      setLassoPoints([x, y])
+      setLassoAnchors([x, y])
+      return
     }
-  }, [imageUrl])
+
+    // Clicking back on the first anchor closes the outline
+    if (lassoAnchors.length >= 6 && Math.hypot(x - lassoAnchors[0], y - lassoAnchors[1]) * scale <= LASSO_CLOSE_DISTANCE) {
+      closeLasso(getSelectionModeFromEvent(e.evt, selectionMode))
+      return
+    }
+
+    const segment = findEdgePath(costMap, lassoPoints[lassoPoints.length - 2], lassoPoints[lassoPoints.length - 1], x, y)
+    const end = segment.slice(-2)
+    setLassoPoints(prev => [...prev, ...segment.slice(2)])
+    setLassoAnchors(prev => [...prev, ...end])
+    cancelLiveWire()
+  }, [getEdgeCostMap, scale, lassoPoints, lassoAnchors, closeLasso, selectionMode, cancelLiveWire])
+
+  // Recompute the live wire at most once per frame while the cursor moves
+  const handleLassoMove = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pos = e.target.getStage()?.getPointerPosition()
+    if (!pos || lassoPoints.length === 0) return
+
+    liveCursorRef.current = { x: pos.x / scale, y: pos.y / scale }
+    if (liveFrameRef.current !== null) return
+
+    const fromX = lassoPoints[lassoPoints.length - 2]
+    const fromY = lassoPoints[lassoPoints.length - 1]
+    liveFrameRef.current = requestAnimationFrame(() => {
+      liveFrameRef.current = null
+      const costMap = getEdgeCostMap()
+      if (costMap) {
+        setLivePath(findEdgePath(costMap, fromX, fromY, liveCursorRef.current.x, liveCursorRef.current.y, LIVE_WIRE_SEARCH_PIXELS))
+      }
+    })
+  }, [lassoPoints, getEdgeCostMap, scale])
+
+  // Re-rasterize an edited polygon into its class mask
+  const getEditedMask = useCallback((path: SelectorPath, points: number[]) => reapplySelection(
+    getClassMask(masks, path.classId),
+    path.previousMask ?? null,
+    colorProcessor.polygonToMask(path.points, imageWidth, imageHeight, 1),
+    colorProcessor.polygonToMask(points, imageWidth, imageHeight, 1),
+    path.mode ?? 'add',
+    path.classId
+  ), [masks, imageWidth, imageHeight])
+
+  // Live updates while dragging run at most once per frame and stay local,
+  // so a drag adds one history step rather than one per frame
+  const previewPolygonEdit = useCallback((index: number, points: number[]) => {
+    pendingEditRef.current = { index, points }
+    if (editFrameRef.current !== null) return
+
+    editFrameRef.current = requestAnimationFrame(() => {
+      editFrameRef.current = null
+      const pending = pendingEditRef.current
+      pendingEditRef.current = null
+      const path = pending && paths[pending.index]
+      if (!pending || !path) return
+
+      const data = getEditedMask(path, pending.points)
+      setEditPreview({
+        classId: path.classId,
+        canvas: createMaskOverlay({ data, width: imageWidth, height: imageHeight }, getClassColor(classes, path.classId))
+      })
+    })
+  }, [paths, classes, imageWidth, imageHeight, getEditedMask])
+
+  const commitPolygonEdit = useCallback((index: number, points: number[]) => {
+    if (editFrameRef.current !== null) {
+      cancelAnimationFrame(editFrameRef.current)
+      editFrameRef.current = null
+    }
+    pendingEditRef.current = null
+
+    const path = paths[index]
+    if (!path) return
+    onMaskSelection({ classId: path.classId, mask: getEditedMask(path, points), mode: 'replace' })
+    setPaths(prev => prev.map((path, i) => i === index ? { ...path, points } : path))
+  }, [paths, getEditedMask, onMaskSelection])
+
+  useEffect(() => () => {
+    if (editFrameRef.current !== null) cancelAnimationFrame(editFrameRef.current)
+  }, [])
+
+  const stopEditing = useCallback(() => {
+    setEditingIndex(null)
+    setSelectedVertex(null)
+  }, [])
+
+  // Delete removes the selected vertex, Escape leaves editing
+  useEffect(() => {
+    if (editingIndex === null) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+
+      if (e.key === 'Escape') {
+        stopEditing()
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedVertex !== null) {
+        const points = paths[editingIndex]?.points
+        if (!points || points.length <= 6) return // Keep at least a triangle
+
+        e.preventDefault()
+        commitPolygonEdit(editingIndex, [...points.slice(0, selectedVertex * 2), ...points.slice(selectedVertex * 2 + 2)])
+        setSelectedVertex(null)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [editingIndex, selectedVertex, paths, commitPolygonEdit, stopEditing])
+
+  // Rasterize the pending shape, including any move or resize from its handles
+  const applyPendingShape = useCallback(() => {
+    const node = pendingShapeRef.current
+    if (pendingShape && node) {
+      applyOutline(getShapeOutline(node), pendingShape.tool, pendingShape.mode)
+    }
+    setPendingShape(null)
+  }, [pendingShape, applyOutline])
+
+  // Attach resize handles once a shape has been drawn
+  useEffect(() => {
+    const transformer = transformerRef.current
+    if (!transformer) return
+    transformer.nodes(pendingShape && !isDrawing && pendingShapeRef.current ? [pendingShapeRef.current] : [])
+  }, [pendingShape, isDrawing])
+
+  // Enter applies the pending shape, Escape discards it
+  useEffect(() => {
+    if (!pendingShape || isDrawing) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      if (e.key === 'Enter') applyPendingShape()
+      if (e.key === 'Escape') setPendingShape(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [pendingShape, isDrawing, applyPendingShape])
+
+  const handleShapeMouseDown = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
+    // Moving or resizing the pending shape
+    if (e.target.name() === PENDING_SHAPE_NAME || e.target.getParent() instanceof Konva.Transformer) return
+
+    const pos = e.target.getStage()?.getPointerPosition()
+    if (!pos || !isShapeTool(selectedTool)) return
+
+    // Starting another shape applies the previous one
+    if (pendingShape) applyPendingShape()
+
+    const x = pos.x / scale
+    const y = pos.y / scale
+    setPendingShape({
+      tool: selectedTool,
+      points: selectedTool === 'freehand' ? [x, y] : [x, y, x, y],
+      mode: getSelectionModeFromEvent(e.evt, selectionMode)
+    })
+    setIsDrawing(true)
+  }, [selectedTool, pendingShape, applyPendingShape, scale, selectionMode])
+
+  const handleShapeMouseMove = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
+    const pos = e.target.getStage()?.getPointerPosition()
+    if (!isDrawing || !pos) return
+
+    const x = pos.x / scale
+    const y = pos.y / scale
+    setPendingShape(prev => prev && {
+      ...prev,
+      points: prev.tool === 'freehand' ? [...prev.points, x, y] : [prev.points[0], prev.points[1], x, y]
+    })
+  }, [isDrawing, scale])
+
+  const handleShapeMouseUp = useCallback(() => {
+    if (!isDrawing) return
+
+    setIsDrawing(false)
+    // Drop clicks and slivers that wouldn't select anything
+    setPendingShape(prev => {
+      if (!prev) return prev
+      if (prev.tool === 'freehand') return prev.points.length >= 6 ? prev : null
+      const [x1, y1, x2, y2] = prev.points
+      return Math.abs(x2 - x1) >= 2 && Math.abs(y2 - y1) >= 2 ? prev : null
+    })
+  }, [isDrawing])
 
   const handleMouseDown = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
-    if (selectedTool === 'polygon') return
+    if (selectedTool === 'polygon' || selectedTool === 'wand' || selectedTool === 'lasso') return
     
     setIsDrawing(true)
+    if (selectedTool === 'brush') {
+      setStrokeMode(getSelectionModeFromEvent(e.evt, 'add'))
+    }
+    if (selectedTool === 'scribble') {
+      // Alt draws the other side, so switching back and forth needs no trip to the toolbar
+      setStrokeLabel(e.evt.altKey ? (scribbleLabel === 'foreground' ? 'background' : 'foreground') : scribbleLabel)
+    }
     const pos = e.target.getStage()?.getPointerPosition()
     if (pos) {
       setCurrentPath([pos.x / scale, pos.y / scale])
     }
-  }, [selectedTool, scale])
+  }, [selectedTool, scribbleLabel, scale])
 
   const handleMouseMove = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
-    if (!isDrawing || selectedTool === 'polygon') return
+    if (!isDrawing || selectedTool === 'polygon' || selectedTool === 'wand' || selectedTool === 'lasso') return
 
     const stage = e.target.getStage()
     const point = stage?.getPointerPosition()
@@ -66,61 +521,114 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
     if (!isDrawing) return
     
     setIsDrawing(false)
-    if (currentPath.length > 4) { // At least 2 points
+    if (selectedTool === 'scribble' && currentPath.length >= 2) {
+      const strokes = [...classScribbles, {
+        points: currentPath,
+        size: brushSize,
+        label: strokeLabel,
+        classId: selectedClass
+      }]
+      const previousMask = getClassMask(masks, selectedClass)
+      setScribbles(prev => [...prev, strokes[strokes.length - 1]])
+      setPaths(prev => [...prev, {
+        points: currentPath,
+        tool: 'scribble',
+        size: brushSize,
+        classId: selectedClass,
+        previousMask
+      }])
+      runGraphCut(selectedClass, strokes, previousMask)
+    } else if (currentPath.length >= 2) { // A single click paints a dot
       const newPath = {
         points: currentPath,
         tool: selectedTool,
         size: brushSize,
-        classId: selectedClass
+        classId: selectedClass,
+        previousMask: getClassMask(masks, selectedClass)
       }
       setPaths(prev => [...prev, newPath])
       
-      // Notify parent of selection
-      onSelectionComplete({
-        points: currentPath,
-        classId: selectedClass
+      // Brush strokes add to the class mask (or follow the modifier keys),
+      // eraser strokes cut out of it
+      onMaskSelection({
+        classId: selectedClass,
+        mask: rasterizeStroke(currentPath, brushSize, imageWidth, imageHeight),
+        mode: selectedTool === 'eraser' ? 'subtract' : strokeMode
       })
     }
     setCurrentPath([])
-  }, [isDrawing, currentPath, selectedTool, brushSize, selectedClass, onSelectionComplete])
+  }, [isDrawing, currentPath, selectedTool, brushSize, selectedClass, masks, imageWidth, imageHeight, onMaskSelection, classScribbles, strokeLabel, strokeMode, runGraphCut])
 
   const handlePolygonClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     if (selectedTool !== 'polygon') return
-    
+    if (e.target.findAncestor(`.${EDITABLE_POLYGON_NAME}`)) return // Editing a completed polygon
+
+    // Clicking away from the polygon being edited finishes editing
+    if (editingIndex !== null && polygonPoints.length === 0) {
+      stopEditing()
+      return
+    }
+
     const pos = e.target.getStage()?.getPointerPosition()
     if (pos) {
       const newPoints = [...polygonPoints, pos.x / scale, pos.y / scale]
       setPolygonPoints(newPoints)
     }
-  }, [selectedTool, polygonPoints, scale])
+  }, [selectedTool, polygonPoints, scale, editingIndex, stopEditing])
 
-  const completePolygon = useCallback(() => {
+  const completePolygon = useCallback((e: React.MouseEvent) => {
     if (polygonPoints.length >= 6) { // At least 3 points
-      const newPath = {
-        points: polygonPoints,
-        tool: 'polygon',
-        size: 1,
-        classId: selectedClass
-      }
-      setPaths(prev => [...prev, newPath])
-      
-      onSelectionComplete({
-        points: polygonPoints,
-        classId: selectedClass
-      })
+      applyOutline(polygonPoints, 'polygon', getSelectionModeFromEvent(e.nativeEvent, selectionMode))
     }
     setPolygonPoints([])
-  }, [polygonPoints, selectedClass, onSelectionComplete])
+  }, [polygonPoints, selectionMode, applyOutline])
 
   const clearAll = useCallback(() => {
+    cutJobRef.current?.abort()
     setPaths([])
     setPolygonPoints([])
     setCurrentPath([])
-  }, [])
+    setScribbles([])
+    setCutError(null)
+    resetLasso()
+    stopEditing()
+    setPendingShape(null)
+  }, [resetLasso, stopEditing])
 
-  const undoLast = useCallback(() => {
-    setPaths(prev => prev.slice(0, -1))
-  }, [])
+  // Start the class over without touching its mask
+  const clearScribbles = useCallback(() => {
+    cutJobRef.current?.abort()
+    setScribbles(prev => prev.filter(scribble => scribble.classId !== selectedClass))
+    setCutError(null)
+  }, [selectedClass])
+
+  // Undo and redo can swap a class mask under the outlines and scribbles
+  // drawn on it, which then no longer match; other classes keep theirs
+  useEffect(() => {
+    const previousMasks = previousMasksRef.current
+    previousMasksRef.current = masks
+    if (restoreCountRef.current === restoreCount) return
+    restoreCountRef.current = restoreCount
+
+    const isStale = (classId: number) => getClassMask(previousMasks, classId) !== getClassMask(masks, classId)
+
+    if (cutClassRef.current !== null && isStale(cutClassRef.current)) {
+      cutJobRef.current?.abort()
+    }
+    setScribbles(prev => prev.filter(scribble => !isStale(scribble.classId)))
+
+    const kept = paths.filter(path => !isStale(path.classId))
+    if (kept.length === paths.length) return
+    if (editingIndex !== null) {
+      const editing = paths[editingIndex]
+      if (kept.includes(editing)) {
+        setEditingIndex(kept.indexOf(editing))
+      } else {
+        stopEditing()
+      }
+    }
+    setPaths(kept)
+  }, [restoreCount, masks, paths, editingIndex, stopEditing])
 
   return (
     <div className="space-y-4">
@@ -129,9 +637,9 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
           <h3 className="text-lg font-medium text-gray-900">Manual Selection</h3>
           <div className="flex items-center space-x-2">
             <button
-              onClick={undoLast}
+              onClick={onUndo}
               className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded"
-              disabled={paths.length === 0}
+              disabled={!canUndo}
             >
               Undo
             </button>
@@ -141,6 +649,38 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
             >
               Clear All
             </button>
+            {selectedTool === 'scribble' && classScribbles.length > 0 && (
+              <button
+                onClick={clearScribbles}
+                className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded"
+              >
+                Clear Scribbles
+              </button>
+            )}
+            {pendingShape && !isDrawing && (
+              <>
+                <button
+                  onClick={applyPendingShape}
+                  className="px-3 py-1 text-sm bg-blue-100 hover:bg-blue-200 text-blue-700 rounded"
+                >
+                  Apply Shape
+                </button>
+                <button
+                  onClick={() => setPendingShape(null)}
+                  className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 rounded"
+                >
+                  Cancel Shape
+                </button>
+              </>
+            )}
+            {selectedTool === 'lasso' && lassoAnchors.length >= 6 && (
+              <button
+                onClick={(e) => closeLasso(getSelectionModeFromEvent(e.nativeEvent, selectionMode))}
+                className="px-3 py-1 text-sm bg-blue-100 hover:bg-blue-200 text-blue-700 rounded"
+              >
+                Complete Lasso
+              </button>
+            )}
             {selectedTool === 'polygon' && polygonPoints.length >= 6 && (
               <button
                 onClick={completePolygon}
@@ -159,9 +699,19 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
             height={containerHeight}
             scaleX={scale}
             scaleY={scale}
-            onMouseDown={selectedTool === 'polygon' ? handlePolygonClick : handleMouseDown}
-            onMousemove={handleMouseMove}
-            onMouseup={handleMouseUp}
+            onMouseDown={
+              selectedTool === 'polygon' ? handlePolygonClick
+                : selectedTool === 'wand' ? handleWandClick
+                  : selectedTool === 'lasso' ? handleLassoClick
+                    : isShapeTool(selectedTool) ? handleShapeMouseDown
+                      : handleMouseDown
+            }
+            onMousemove={
+              selectedTool === 'lasso' ? handleLassoMove
+                : isShapeTool(selectedTool) ? handleShapeMouseMove
+                  : handleMouseMove
+            }
+            onMouseup={isShapeTool(selectedTool) ? handleShapeMouseUp : handleMouseUp}
           >
             <Layer>
               {/* Original image */}
@@ -174,29 +724,78 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
                 />
               )}
               
-              {/* Drawn paths */}
-              {paths.map((path, index) => (
+              {/* Current class masks */}
+              {maskOverlays.map((overlay, index) => (
+                <KonvaImage
+                  key={`mask-${index}`}
+                  image={overlay.classId === editPreview?.classId ? editPreview.canvas : overlay.canvas}
+                  width={imageWidth}
+                  height={imageHeight}
+                  opacity={0.5}
+                  listening={false}
+                />
+              ))}
+              
+              {/* Completed polygons stay editable with the polygon tool */}
+              {paths.map((path, index) => path.tool === 'polygon' && (
+                <EditablePolygon
+                  key={index}
+                  points={path.points}
+                  color={getClassColor(classes, path.classId)}
+                  scale={scale}
+                  dashed={path.mode === 'subtract'}
+                  editable={selectedTool === 'polygon' && polygonPoints.length === 0}
+                  selected={editingIndex === index}
+                  selectedVertex={editingIndex === index ? selectedVertex : null}
+                  onSelect={() => {
+                    setEditingIndex(index)
+                    setSelectedVertex(null)
+                  }}
+                  onVertexSelect={setSelectedVertex}
+                  onPreview={(points) => previewPolygonEdit(index, points)}
+                  onChange={(points) => commitPolygonEdit(index, points)}
+                />
+              ))}
+              
+              {/* Lasso and shape outlines (brush and eraser strokes already show in the masks) */}
+              {paths.map((path, index) => OUTLINE_TOOLS.includes(path.tool) && (
                 <Line
                   key={index}
                   points={path.points}
-                  stroke={getClassColor(path.classId)}
-                  strokeWidth={path.tool === 'eraser' ? path.size * 2 : path.size}
-                  tension={0.5}
+                  stroke={getClassColor(classes, path.classId)}
+                  strokeWidth={path.size}
                   lineCap="round"
                   lineJoin="round"
-                  globalCompositeOperation={path.tool === 'eraser' ? 'destination-out' : 'source-over'}
-                  closed={path.tool === 'polygon'}
-                  fill={path.tool === 'polygon' ? getClassColor(path.classId) + '40' : undefined}
+                  closed
+                  dash={path.mode === 'subtract' ? [6, 4] : undefined}
                 />
               ))}
               
-              {/* Current path being drawn */}
+              {/* Smart Select scribbles for the selected class */}
+              {selectedTool === 'scribble' && classScribbles.map((scribble, index) => (
+                <Line
+                  key={`scribble-${index}`}
+                  points={scribble.points.length === 2 ? [...scribble.points, ...scribble.points] : scribble.points}
+                  stroke={SCRIBBLE_COLORS[scribble.label]}
+                  strokeWidth={scribble.size}
+                  opacity={0.8}
+                  lineCap="round"
+                  lineJoin="round"
+                  listening={false}
+                />
+              ))}
+              
+              {/* Current stroke, drawn exactly as it will be rasterized */}
               {currentPath.length > 0 && (
                 <Line
-                  points={currentPath}
-                  stroke={getClassColor(selectedClass)}
+                  points={currentPath.length === 2 ? [...currentPath, ...currentPath] : currentPath}
+                  stroke={
+                    selectedTool === 'eraser' ? '#FFFFFF'
+                      : selectedTool === 'scribble' ? SCRIBBLE_COLORS[strokeLabel]
+                        : getClassColor(classes, selectedClass)
+                  }
                   strokeWidth={brushSize}
-                  tension={0.5}
+                  opacity={selectedTool === 'eraser' ? 0.6 : 1}
                   lineCap="round"
                   lineJoin="round"
                 />
@@ -206,38 +805,203 @@ export const ManualSelector: React.FC<ManualSelectorProps> = ({
               {polygonPoints.length > 0 && (
                 <Line
                   points={polygonPoints}
-                  stroke={getClassColor(selectedClass)}
+                  stroke={getClassColor(classes, selectedClass)}
                   strokeWidth={2}
                   lineCap="round"
                   lineJoin="round"
                   dash={[5, 5]}
                 />
               )}
+
+              {/* Shape being drawn or resized */}
+              {pendingShape && renderPendingShape(
+                pendingShape,
+                pendingShapeRef,
+                getClassColor(classes, selectedClass),
+                scale,
+                !isDrawing
+              )}
+              <Transformer
+                ref={transformerRef}
+                rotateEnabled={false}
+                flipEnabled={false}
+                ignoreStroke
+              />
+
+              {/* Magnetic lasso: snapped outline, live wire and anchors */}
+              {lassoPoints.length > 0 && (
+                <>
+                  <Line
+                    points={lassoPoints}
+                    stroke={getClassColor(classes, selectedClass)}
+                    strokeWidth={2 / scale}
+                    lineJoin="round"
+                    listening={false}
+                  />
+                  <Line
+                    points={livePath}
+                    stroke="#FACC15"
+                    strokeWidth={2 / scale}
+                    lineJoin="round"
+                    dash={[5 / scale, 5 / scale]}
+                    listening={false}
+                  />
+                  {lassoAnchors.map((value, index) => index % 2 === 0 && (
+                    <Circle
+                      key={`anchor-${index}`}
+                      x={value}
+                      y={lassoAnchors[index + 1]}
+                      radius={(index === 0 ? LASSO_CLOSE_DISTANCE : 3) / scale}
+                      stroke="#FFFFFF"
+                      strokeWidth={1 / scale}
+                      fill={index === 0 ? undefined : getClassColor(classes, selectedClass)}
+                      listening={false}
+                    />
+                  ))}
+                </>
+              )}
             </Layer>
           </Stage>
 
           {/* Instructions */}
           <div className="absolute top-2 left-2 bg-black bg-opacity-75 text-white px-2 py-1 rounded text-sm">
-            {selectedTool === 'brush' && 'Click and drag to paint areas'}
+            {selectedTool === 'brush' && 'Click and drag to paint areas (Alt subtract, Shift+Alt intersect)'}
             {selectedTool === 'eraser' && 'Click and drag to erase'}
-            {selectedTool === 'polygon' && 'Click to add points, then Complete Polygon'}
+            {selectedTool === 'polygon' && (editingIndex !== null
+              ? 'Drag points or the shape, click an edge to add a point, Delete removes the selected point'
+              : 'Click to add points, then Complete Polygon (Alt to cut out); click a finished polygon to edit it')}
+            {selectedTool === 'wand' && 'Click to select similar colors (Shift add, Alt subtract)'}
+            {selectedTool === 'rectangle' && 'Drag a box, adjust the handles, then press Enter (Shift add, Alt subtract)'}
+            {selectedTool === 'ellipse' && 'Drag an ellipse, adjust the handles, then press Enter (Shift add, Alt subtract)'}
+            {selectedTool === 'freehand' && 'Draw around the area, adjust the handles, then press Enter (Shift add, Alt subtract)'}
+            {selectedTool === 'lasso' && 'Click to drop anchors along an edge, click the first anchor to close'}
+            {selectedTool === 'scribble' && 'Scribble inside and outside the area (Alt for the other side)'}
           </div>
+
+          {selectedTool === 'scribble' && isCutting && (
+            <div className="absolute top-2 right-2 bg-blue-600 text-white px-2 py-1 rounded text-sm">
+              Computing region...
+            </div>
+          )}
         </div>
+
+        {cutError && (
+          <p className="mt-2 text-sm text-red-600">{cutError}</p>
+        )}
       </div>
     </div>
   )
 }
 
-// Helper function to get class color
-function getClassColor(classId: number): string {
-  const colors: { [key: number]: string } = {
-    1: '#FF6B6B', // Walls
-    2: '#4ECDC4', // Roof
-    3: '#45B7D1', // Windows
-    4: '#96CEB4', // Doors
-    5: '#FFEAA7', // Trim
-    6: '#DDA0DD', // Landscape
-    7: '#87CEEB'  // Sky
+// Modifier keys override the chosen mode, following image editor conventions
+function getSelectionModeFromEvent(evt: MouseEvent, fallback: SelectionMode): SelectionMode {
+  if (evt.shiftKey && evt.altKey) return 'intersect'
+  if (evt.shiftKey) return 'add'
+  if (evt.altKey) return 'subtract'
+  return fallback
+}
+
+function isShapeTool(tool: SelectionTool): tool is ShapeTool {
+  return tool === 'rectangle' || tool === 'ellipse' || tool === 'freehand'
+}
+
+// Draft shapes are drawn from their drag corners; once drawn they can be
+// dragged, and the transformer resizes them through the node's scale
+function renderPendingShape(
+  shape: PendingShape,
+  ref: React.RefObject<Konva.Shape | null>,
+  color: string,
+  scale: number,
+  interactive: boolean
+): React.ReactNode {
+  const common = {
+    ref: (node: Konva.Shape | null) => {
+      ref.current = node
+    },
+    name: PENDING_SHAPE_NAME,
+    stroke: color,
+    strokeWidth: 2 / scale,
+    fill: `${color}33`,
+    dash: shape.mode === 'subtract' ? [6 / scale, 4 / scale] : undefined,
+    draggable: interactive,
+    listening: interactive
+  }
+
+  if (shape.tool === 'freehand') {
+    return <Line {...common} points={shape.points} closed lineJoin="round" />
+  }
+
+  const [x1, y1, x2, y2] = shape.points
+  if (shape.tool === 'ellipse') {
+    return (
+      <Ellipse
+        {...common}
+        x={(x1 + x2) / 2}
+        y={(y1 + y2) / 2}
+        radiusX={Math.abs(x2 - x1) / 2}
+        radiusY={Math.abs(y2 - y1) / 2}
+      />
+    )
+  }
+  return <Rect {...common} x={Math.min(x1, x2)} y={Math.min(y1, y2)} width={Math.abs(x2 - x1)} height={Math.abs(y2 - y1)} />
+}
+
+// Image-space outline of a pending shape after any move or resize
+function getShapeOutline(node: Konva.Shape): number[] {
+  let local: number[]
+  if (node instanceof Konva.Line) {
+    local = node.points()
+  } else if (node instanceof Konva.Ellipse) {
+    local = []
+    for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+      const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2
+      local.push(Math.cos(angle) * node.radiusX(), Math.sin(angle) * node.radiusY())
+    }
+  } else {
+    local = [0, 0, node.width(), 0, node.width(), node.height(), 0, node.height()]
+  }
+
+  // The layer isn't transformed, so the node's own transform maps to image space
+  const transform = node.getTransform()
+  const outline: number[] = []
+  for (let i = 0; i < local.length; i += 2) {
+    const point = transform.point({ x: local[i], y: local[i + 1] })
+    outline.push(point.x, point.y)
   }
-  return colors[classId] || '#FF6B6B'
+  return outline
+}
+
+// Current mask data for a class; store masks are replaced rather than mutated,
+// so the reference doubles as a snapshot
+function getClassMask(masks: SegmentationMask[] | undefined, classId: number): Uint8Array | null {
+  return masks?.find(mask => mask.classId === classId)?.data ?? null
+}
+
+// Helper function to draw a class mask as a colored, translucent canvas
+function createMaskOverlay(mask: Pick<SegmentationMask, 'data' | 'width' | 'height'>, color: string): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = mask.width
+  canvas.height = mask.height
+  const ctx = canvas.getContext('2d')!
+  const imageData = ctx.createImageData(mask.width, mask.height)
+  const r = parseInt(color.slice(1, 3), 16)
+  const g = parseInt(color.slice(3, 5), 16)
+  const b = parseInt(color.slice(5, 7), 16)
+
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] !== 0) {
+      imageData.data[i * 4] = r
+      imageData.data[i * 4 + 1] = g
+      imageData.data[i * 4 + 2] = b
+      imageData.data[i * 4 + 3] = 160
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0)
+  return canvas
+}
+
+// Helper function to get class color
+function getClassColor(classes: SegmentationClass[], classId: number): string {
+  return findClass(classes, classId)?.color ?? '#FF6B6B'
 }
\ No newline at end of file
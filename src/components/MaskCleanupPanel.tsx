@@ -0,0 +1,115 @@
+import React, { useState } from 'react'
+import { SegmentationClass, SegmentationMask } from '../services/segmentation'
+import { applyMorphology, MorphologyOperation } from '../utils/morphology'
+import { countMaskPixels } from '../utils/maskUtils'
+
+interface MaskCleanupPanelProps {
+  masks: SegmentationMask[]
+  classes: SegmentationClass[]
+  imageWidth: number
+  imageHeight: number
+  onMaskChange: (mask: SegmentationMask) => void
+  defaultClassId?: number
+}
+
+// Radius based steps use the radius slider, the others the area field
+const OPERATIONS: { operation: MorphologyOperation; label: string; description: string; usesArea: boolean }[] = [
+  { operation: 'dilate', label: 'Grow', description: 'Expand the area outwards', usesArea: false },
+  { operation: 'erode', label: 'Shrink', description: 'Pull the edges inwards', usesArea: false },
+  { operation: 'open', label: 'Smooth', description: 'Remove thin spurs and ragged edges', usesArea: false },
+  { operation: 'close', label: 'Close gaps', description: 'Bridge narrow cracks and pinholes', usesArea: false },
+  { operation: 'fill-holes', label: 'Fill holes', description: 'Fill enclosed holes up to the size limit', usesArea: true },
+  { operation: 'remove-islands', label: 'Remove specks', description: 'Drop stray islands below the size limit', usesArea: true }
+]
+
+export const MaskCleanupPanel: React.FC<MaskCleanupPanelProps> = ({
+  masks,
+  classes,
+  imageWidth,
+  imageHeight,
+  onMaskChange,
+  defaultClassId
+}) => {
+  const [classId, setClassId] = useState<number | null>(null)
+  const [radius, setRadius] = useState(2)
+  // Default size limit: 0.05% of the image
+  const [areaLimit, setAreaLimit] = useState(() => Math.max(1, Math.round(imageWidth * imageHeight * 0.0005)))
+
+  const mask = masks.find(m => m.classId === classId)
+    ?? masks.find(m => m.classId === defaultClassId)
+    ?? masks[0]
+
+  if (!mask) return null
+
+  const handleApply = (operation: MorphologyOperation, usesArea: boolean) => {
+    onMaskChange(applyMorphology(mask, operation, usesArea ? areaLimit : radius))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-md font-medium text-gray-900">Clean Up Mask</h4>
+          <p className="text-xs text-gray-500">Fix pinholes, stray specks and ragged edges in one area</p>
+        </div>
+        <span className="text-xs text-gray-500">{countMaskPixels(mask.data).toLocaleString()} px</span>
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">Area</label>
+          <select
+            value={mask.classId}
+            onChange={(e) => setClassId(parseInt(e.target.value))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {masks.map(m => (
+              <option key={m.classId} value={m.classId}>
+                {classes.find(c => c.id === m.classId)?.displayName ?? m.className}
+              </option>
+            ))}
+          </select>
+        </div>
+        
+        <div>
+          <div className="flex items-center justify-between">
+            <label className="block text-sm text-gray-700">Radius</label>
+            <span className="text-sm text-gray-500">{radius}px</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max="20"
+            value={radius}
+            onChange={(e) => setRadius(parseInt(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">Size limit (px)</label>
+          <input
+            type="number"
+            min="1"
+            value={areaLimit}
+            onChange={(e) => setAreaLimit(Math.max(1, parseInt(e.target.value) || 1))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          />
+        </div>
+      </div>
+      
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {OPERATIONS.map(({ operation, label, description, usesArea }) => (
+          <button
+            key={operation}
+            onClick={() => handleApply(operation, usesArea)}
+            title={description}
+            className="py-2 px-3 rounded-md text-sm font-medium border border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import React, { useState } from 'react'
+import { findClass, SegmentationClass, SegmentationMask } from '../services/segmentation'
+import { InstanceRef, MaskSelection } from '../types'
+import { applyMaskOperation, countMaskPixels, getInstanceMask, MaskOperation } from '../utils/maskUtils'
+import { getRegionKey } from '../utils/colorScheme'
+
+interface MaskOperationsPanelProps {
+  masks: SegmentationMask[]
+  classes: SegmentationClass[]
+  selectedInstances: InstanceRef[] // Selected pieces are offered as operands too
+  onMaskSelection: (selection: MaskSelection) => void
+  defaultClassId?: number
+}
+
+interface Operand {
+  key: string // getRegionKey() of the class or piece
+  label: string
+  mask: SegmentationMask // The class mask a piece belongs to
+  instanceId?: number
+}
+
+const OPERATIONS: { operation: MaskOperation; label: string; symbol: string; description: string }[] = [
+  { operation: 'union', label: 'Union', symbol: '+', description: 'Add the other mask to the target' },
+  { operation: 'subtract', label: 'Subtract', symbol: '−', description: 'Cut the other mask out of the target' },
+  { operation: 'intersect', label: 'Intersect', symbol: '∩', description: 'Keep only where both masks overlap' },
+  { operation: 'invert', label: 'Invert', symbol: 'not', description: 'Replace the target with everything outside the other mask' }
+]
+
+export const MaskOperationsPanel: React.FC<MaskOperationsPanelProps> = ({
+  masks,
+  classes,
+  selectedInstances,
+  onMaskSelection,
+  defaultClassId
+}) => {
+  const [targetId, setTargetId] = useState<number | null>(null)
+  const [operation, setOperation] = useState<MaskOperation>('subtract')
+  const [operandKey, setOperandKey] = useState<string | null>(null)
+
+  const getClassName = (classId: number) =>
+    findClass(classes, classId)?.displayName ?? `Class ${classId}`
+
+  const targets = classes.filter(c => c.id !== 0)
+  const target = targets.find(c => c.id === targetId)
+    ?? targets.find(c => c.id === defaultClassId)
+    ?? targets[0]
+
+  const operands: Operand[] = [
+    ...masks.map(mask => ({
+      key: getRegionKey(mask.classId),
+      label: getClassName(mask.classId),
+      mask
+    })),
+    ...selectedInstances.flatMap(({ classId, instanceId }) => {
+      const mask = masks.find(m => m.classId === classId)
+      return mask ? [{
+        key: getRegionKey(classId, instanceId),
+        label: `${getClassName(classId)} #${instanceId}`,
+        mask,
+        instanceId
+      }] : []
+    })
+  ]
+  // Default to another area than the target, the usual "walls minus porch" case
+  const operand = operands.find(o => o.key === operandKey)
+    ?? operands.find(o => o.mask.classId !== target?.id)
+    ?? operands[0]
+
+  if (!target || !operand) return null
+
+  const targetMask = masks.find(m => m.classId === target.id)
+  const symbol = OPERATIONS.find(o => o.operation === operation)!.symbol
+
+  const handleApply = () => {
+    const operandData = operand.instanceId !== undefined
+      ? getInstanceMask(operand.mask, operand.instanceId).data
+      : operand.mask.data
+    onMaskSelection({
+      classId: target.id,
+      mask: applyMaskOperation(targetMask?.data ?? null, operandData, operation, target.id),
+      mode: 'replace'
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-md font-medium text-gray-900">Combine Areas</h4>
+          <p className="text-xs text-gray-500">Union, subtract, intersect or invert areas; the result replaces the target</p>
+        </div>
+        <span className="text-xs text-gray-500">
+          {targetMask ? `${countMaskPixels(targetMask.data).toLocaleString()} px` : 'empty'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {OPERATIONS.map(({ operation: id, label, description }) => (
+          <button
+            key={id}
+            onClick={() => setOperation(id)}
+            title={description}
+            className={`py-2 px-3 rounded-md text-sm font-medium border transition-colors ${
+              operation === id
+                ? 'border-blue-500 bg-blue-50 text-blue-900'
+                : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">Target area</label>
+          <select
+            value={target.id}
+            onChange={(e) => setTargetId(parseInt(e.target.value))}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {targets.map(c => (
+              <option key={c.id} value={c.id}>{c.displayName}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm text-gray-700 mb-1">Other mask</label>
+          <select
+            value={operand.key}
+            onChange={(e) => setOperandKey(e.target.value)}
+            className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          >
+            {operands.map(o => (
+              <option key={o.key} value={o.key}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">
+          {target.displayName} = {operation === 'invert'
+            ? `${symbol} ${operand.label}`
+            : `${target.displayName} ${symbol} ${operand.label}`}
+        </span>
+        <button
+          onClick={handleApply}
+          className="py-2 px-4 rounded-md text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  )
+}
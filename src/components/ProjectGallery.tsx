@@ -0,0 +1,122 @@
+import React, { useState } from 'react'
+import { EditorStep } from '../types'
+import { ProjectSummary } from '../services/projectStorage'
+
+interface ProjectGalleryProps {
+  projects: ProjectSummary[] // Most recently edited first
+  onOpen: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string, name: string) => void
+  onDelete: (id: string) => void
+}
+
+const STEP_LABELS: Record<EditorStep, string> = {
+  upload: 'New',
+  segment: 'Selecting areas',
+  color: 'Choosing colors'
+}
+
+export const ProjectGallery: React.FC<ProjectGalleryProps> = ({
+  projects,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [deletingId, setDeletingId] = useState<string | null>(null) // Asked to confirm
+
+  if (projects.length === 0) return null
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id)
+    setDraftName(project.name)
+  }
+
+  const finishRename = (project: ProjectSummary) => {
+    const name = draftName.trim()
+    if (name && name !== project.name) {
+      onRename(project.id, name)
+    }
+    setRenamingId(null)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">Your Projects</h2>
+      <p className="text-gray-600 mb-4 text-sm">Saved in this browser. Pick one up where you left off.</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {projects.map(project => (
+          <div key={project.id} className="border border-gray-200 rounded-lg overflow-hidden flex flex-col">
+            <button
+              onClick={() => onOpen(project.id)}
+              className="flex items-center justify-center w-full bg-gray-100 aspect-[4/3]"
+              title="Open project"
+            >
+              {project.thumbnail ? (
+                <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-sm text-gray-400">No preview</span>
+              )}
+            </button>
+
+            <div className="p-3 flex-1 flex flex-col space-y-2">
+              {renamingId === project.id ? (
+                <input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={() => finishRename(project)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRename(project)
+                    if (e.key === 'Escape') setRenamingId(null)
+                  }}
+                  autoFocus
+                  className="w-full px-2 py-1 border border-blue-500 rounded-md text-sm focus:outline-none"
+                />
+              ) : (
+                <h3 className="text-sm font-medium text-gray-900 truncate" title={project.name}>{project.name}</h3>
+              )}
+              <p className="text-xs text-gray-500">
+                {STEP_LABELS[project.step]} · {project.updatedAt.toLocaleString()}
+              </p>
+
+              <div className="flex items-center space-x-3 text-xs mt-auto">
+                <button onClick={() => onOpen(project.id)} className="text-blue-600 hover:text-blue-800 font-medium">
+                  Open
+                </button>
+                <button onClick={() => startRename(project)} className="text-gray-500 hover:text-gray-700">
+                  Rename
+                </button>
+                <button onClick={() => onDuplicate(project.id, `${project.name} copy`)} className="text-gray-500 hover:text-gray-700">
+                  Duplicate
+                </button>
+                {deletingId === project.id ? (
+                  <>
+                    <button
+                      onClick={() => {
+                        setDeletingId(null)
+                        onDelete(project.id)
+                      }}
+                      className="text-red-600 hover:text-red-800 font-medium"
+                    >
+                      Confirm
+                    </button>
+                    <button onClick={() => setDeletingId(null)} className="text-gray-500 hover:text-gray-700">
+                      Keep
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => setDeletingId(project.id)} className="text-gray-400 hover:text-red-600">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,15 +1,33 @@
-import React, { useEffect, useRef, useState } from 'react'
-import { Stage, Layer, Image as KonvaImage } from 'react-konva'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Stage, Layer, Image as KonvaImage, Rect } from 'react-konva'
 import Konva from 'konva'
-import { SegmentationResult, SEGMENTATION_CLASSES } from '../services/segmentation'
+import {
+  findClass,
+  segmentationService,
+  SegmentationClass,
+  SegmentationMask,
+  SegmentationResult,
+  SceneProfileId,
+  DEFAULT_SCENE_PROFILE,
+  getSceneProfile
+} from '../services/segmentation'
+import { processingWorker, isAbortError } from '../services/processingWorker'
+import { countMaskPixels, getInstanceAt, getMaskInstances } from '../utils/maskUtils'
+import { InstanceRef } from '../types'
 
 interface SegmentationViewerProps {
   imageUrl: string
   imageWidth: number
   imageHeight: number
   segmentationResult: SegmentationResult | null
+  sceneProfile?: SceneProfileId
+  classes?: SegmentationClass[] // Class registry including custom classes, defaults to the scene's built-ins
   onAreaSelect?: (classId: number) => void
   selectedAreas?: number[]
+  // Clicking the image picks a single instance when this is given
+  onInstanceSelect?: (instance: InstanceRef) => void
+  selectedInstances?: InstanceRef[]
+  onMaskChange?: (mask: SegmentationMask) => void
 }
 
 export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
@@ -17,13 +35,24 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
   imageWidth,
   imageHeight,
   segmentationResult,
+  sceneProfile = DEFAULT_SCENE_PROFILE,
+  classes = getSceneProfile(sceneProfile).classes,
   onAreaSelect,
-  selectedAreas = []
+  selectedAreas = [],
+  onInstanceSelect,
+  selectedInstances = [],
+  onMaskChange
 }) => {
   const stageRef = useRef<Konva.Stage>(null)
   const [image, setImage] = useState<HTMLImageElement | null>(null)
   const [segmentationMasks, setSegmentationMasks] = useState<{ [key: number]: HTMLCanvasElement }>({})
-  const [hoveredClass, setHoveredClass] = useState<number | null>(null)
+  const [hoveredInstance, setHoveredInstance] = useState<InstanceRef | null>(null)
+  const hoveredClass = hoveredInstance?.classId ?? null
+  const [refineClass, setRefineClass] = useState<number | null>(null)
+  const [refineStrength, setRefineStrength] = useState(0.5)
+  const [isRefining, setIsRefining] = useState(false)
+  const [refineError, setRefineError] = useState<string | null>(null)
+  const refineJobRef = useRef<AbortController | null>(null)
   
   const containerWidth = 600
   const containerHeight = 400
@@ -39,6 +68,9 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
     }
   }, [imageUrl])
 
+  // Stop any refinement still running when the viewer goes away
+  useEffect(() => () => refineJobRef.current?.abort(), [])
+
   // Create mask canvases from segmentation result
   useEffect(() => {
     if (!segmentationResult) {
@@ -57,7 +89,7 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
       
       if (ctx) {
         const imageData = ctx.createImageData(mask.width, mask.height)
-        const segClass = SEGMENTATION_CLASSES.find(c => c.id === mask.classId)
+        const segClass = findClass(classes, mask.classId)
         const color = segClass ? hexToRgb(segClass.color) : { r: 255, g: 0, b: 0 }
         
         // Apply edge refinement and anti-aliasing
@@ -66,7 +98,13 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
             const i = y * mask.width + x
             const pixelIndex = i * 4
             
-            if (mask.data[i] === mask.classId) {
+            if (mask.alpha) {
+              // Refined masks already carry soft edges
+              imageData.data[pixelIndex] = color.r
+              imageData.data[pixelIndex + 1] = color.g
+              imageData.data[pixelIndex + 2] = color.b
+              imageData.data[pixelIndex + 3] = Math.floor(120 * mask.alpha[i] / 255)
+            } else if (mask.data[i] === mask.classId) {
               // Check if this is an edge pixel for anti-aliasing
               const edgeStrength = calculateEdgeStrength(mask.data, x, y, mask.width, mask.height, mask.classId)
               const alpha = Math.floor(120 * edgeStrength) // Vary transparency based on edge strength
@@ -87,8 +125,50 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
     })
     
     setSegmentationMasks(masks)
+  }, [segmentationResult, classes])
+
+  // Pixel counts per class, recomputed whenever a mask is edited
+  const pixelCounts = useMemo(() => {
+    const counts: { [key: number]: number } = {}
+    segmentationResult?.masks.forEach(mask => {
+      counts[mask.classId] = countMaskPixels(mask.data)
+    })
+    return counts
   }, [segmentationResult])
 
+  // Class the refine panel acts on: the chosen one, else the first selected area
+  const refineTarget = segmentationResult?.masks.find(m => m.classId === refineClass)
+    ?? segmentationResult?.masks.find(m => selectedAreas.includes(m.classId))
+    ?? segmentationResult?.masks[0]
+
+  const handleRefineEdges = async () => {
+    if (!image || !refineTarget || !onMaskChange) return
+
+    refineJobRef.current?.abort()
+    const refineJob = new AbortController()
+    refineJobRef.current = refineJob
+    setIsRefining(true)
+    setRefineError(null)
+
+    try {
+      const imageData = segmentationService.getImageData(image)
+      const refined = await processingWorker.refineMask(imageData, refineTarget, { strength: refineStrength }, {
+        signal: refineJob.signal
+      })
+      onMaskChange(refined)
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Edge refinement failed:', err)
+        setRefineError(err instanceof Error ? err.message : 'Edge refinement failed')
+      }
+    } finally {
+      if (refineJobRef.current === refineJob) {
+        refineJobRef.current = null
+        setIsRefining(false)
+      }
+    }
+  }
+
   // Pixel-perfect click detection
   const handleStageClick = () => {
     const stage = stageRef.current
@@ -106,16 +186,19 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
       return
     }
 
-    // Find which segmentation class was clicked (pixel-perfect)
-    const clickedClassId = getClassAtPixel(imageX, imageY)
-    
-    if (clickedClassId && clickedClassId !== 0 && onAreaSelect) {
-      onAreaSelect(clickedClassId)
+    // Find which instance was clicked (pixel-perfect)
+    const clicked = getInstanceAtPixel(imageX, imageY)
+    if (!clicked) return
+
+    if (onInstanceSelect) {
+      onInstanceSelect(clicked)
+    } else if (onAreaSelect) {
+      onAreaSelect(clicked.classId)
     }
   }
 
-  // Get the segmentation class at a specific pixel coordinate
-  const getClassAtPixel = (x: number, y: number): number | null => {
+  // Get the segmentation instance at a specific pixel coordinate, null for background
+  const getInstanceAtPixel = (x: number, y: number): InstanceRef | null => {
     if (!segmentationResult) return null
 
     const pixelIndex = y * imageWidth + x
@@ -123,11 +206,11 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
     // Check each mask to find which class owns this pixel
     for (const mask of segmentationResult.masks) {
       if (mask.data[pixelIndex] === mask.classId) {
-        return mask.classId
+        return { classId: mask.classId, instanceId: getInstanceAt(mask, x, y) }
       }
     }
 
-    return 0 // Background
+    return null
   }
 
   // Enhanced hover detection for real-time feedback
@@ -142,24 +225,51 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
     const imageY = Math.floor(pos.y / scale)
 
     if (imageX >= 0 && imageX < imageWidth && imageY >= 0 && imageY < imageHeight) {
-      const hoveredClassId = getClassAtPixel(imageX, imageY)
-      setHoveredClass(hoveredClassId && hoveredClassId !== 0 ? hoveredClassId : null)
+      const hovered = getInstanceAtPixel(imageX, imageY)
+      // Keep the same object while over one instance so moves don't re-render
+      setHoveredInstance(current =>
+        current && hovered && current.classId === hovered.classId && current.instanceId === hovered.instanceId
+          ? current
+          : hovered
+      )
     } else {
-      setHoveredClass(null)
+      setHoveredInstance(null)
     }
   }
 
   const handleStageMouseLeave = () => {
-    setHoveredClass(null)
+    setHoveredInstance(null)
   }
 
+  // Bounding boxes of the selected instances plus the hovered one
+  const instanceBoxes = useMemo(() => {
+    if (!segmentationResult) return []
+
+    const hoverIsSelected = hoveredInstance !== null && selectedInstances.some(ref =>
+      ref.classId === hoveredInstance.classId && ref.instanceId === hoveredInstance.instanceId
+    )
+    const refs = hoveredInstance && !hoverIsSelected ? [...selectedInstances, hoveredInstance] : selectedInstances
+
+    return refs.flatMap((ref, index) => {
+      const mask = segmentationResult.masks.find(m => m.classId === ref.classId)
+      const component = mask && getMaskInstances(mask).components[ref.instanceId - 1]
+      if (!component) return []
+      return [{ key: `${ref.classId}:${ref.instanceId}`, component, isSelected: index < selectedInstances.length }]
+    })
+  }, [segmentationResult, selectedInstances, hoveredInstance])
+
+  const getInstanceLabel = (ref: InstanceRef) =>
+    `${findClass(classes, ref.classId)?.displayName} #${ref.instanceId}`
+
   return (
     <div className="space-y-4">
       <div className="bg-white rounded-lg shadow p-4">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-medium text-gray-900">Detected Areas</h3>
           <div className="text-sm text-gray-500">
-            Click on areas to select for recoloring
+            {onInstanceSelect
+              ? `Click on a ${sceneProfile === 'interior' ? 'wall, door or cabinet' : 'window, door or wall'} to select it`
+              : 'Click on areas to select for recoloring'}
           </div>
         </div>
         
@@ -188,7 +298,7 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
               {/* Segmentation masks - now non-interactive for pixel-perfect detection */}
               {Object.entries(segmentationMasks).map(([classId, maskCanvas]) => {
                 const id = parseInt(classId)
-                const isSelected = selectedAreas.includes(id)
+                const isSelected = selectedAreas.includes(id) || selectedInstances.some(ref => ref.classId === id)
                 const isHovered = hoveredClass === id
                 const opacity = isSelected ? 0.7 : isHovered ? 0.5 : 0.3
                 
@@ -203,13 +313,30 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
                   />
                 )
               })}
+              
+              {/* Instance outlines */}
+              {instanceBoxes.map(({ key, component, isSelected }) => (
+                <Rect
+                  key={key}
+                  x={component.minX}
+                  y={component.minY}
+                  width={component.maxX - component.minX + 1}
+                  height={component.maxY - component.minY + 1}
+                  stroke={isSelected ? '#2563eb' : '#ffffff'}
+                  strokeWidth={2 / scale}
+                  dash={isSelected ? undefined : [6 / scale, 4 / scale]}
+                  listening={false}
+                />
+              ))}
             </Layer>
           </Stage>
           
           {/* Hover tooltip */}
-          {hoveredClass !== null && (
+          {hoveredInstance !== null && (
             <div className="absolute top-2 left-2 bg-black bg-opacity-75 text-white px-2 py-1 rounded text-sm">
-              {SEGMENTATION_CLASSES.find(c => c.id === hoveredClass)?.displayName}
+              {onInstanceSelect
+                ? getInstanceLabel(hoveredInstance)
+                : findClass(classes, hoveredInstance.classId)?.displayName}
             </div>
           )}
         </div>
@@ -220,12 +347,15 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
         <div className="bg-white rounded-lg shadow p-4">
           <h4 className="text-md font-medium text-gray-900 mb-3">Available Areas</h4>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {segmentationResult.classes
+            {classes
               .filter(segClass => segClass.id !== 0) // Exclude background
               .map(segClass => {
                 const isSelected = selectedAreas.includes(segClass.id)
                 const mask = segmentationResult.masks.find(m => m.classId === segClass.id)
                 const confidence = mask ? Math.round(mask.confidence * 100) : 0
+                const pixelCount = pixelCounts[segClass.id] ?? 0
+                const coverage = (pixelCount / (imageWidth * imageHeight)) * 100
+                const instanceCount = mask ? getMaskInstances(mask).components.length : 0
                 
                 return (
                   <button
@@ -243,7 +373,14 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
                     />
                     <div className="flex flex-col items-start">
                       <span className="text-sm font-medium">{segClass.displayName}</span>
-                      <span className="text-xs text-gray-500">{confidence}%</span>
+                      <span className="text-xs text-gray-500">
+                        {confidence}% · {coverage < 0.1 && pixelCount > 0 ? '<0.1' : coverage.toFixed(1)}% of image
+                      </span>
+                      <span className="text-xs text-gray-400">
+                        {pixelCount.toLocaleString()} px
+                        {instanceCount > 1 ? ` · ${instanceCount} pieces` : ''}
+                        {mask?.alpha ? ' · refined' : ''}
+                      </span>
                     </div>
                   </button>
                 )
@@ -251,6 +388,65 @@ export const SegmentationViewer: React.FC<SegmentationViewerProps> = ({
           </div>
         </div>
       )}
+      
+      {/* Edge refinement */}
+      {onMaskChange && refineTarget && segmentationResult && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <div>
+            <h4 className="text-md font-medium text-gray-900">Refine Edges</h4>
+            <p className="text-xs text-gray-500">
+              Snaps an area's outline to edges in the photo, e.g. around gutters, railings and shrubs.
+            </p>
+          </div>
+          
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Area</label>
+              <select
+                value={refineTarget.classId}
+                onChange={(e) => setRefineClass(parseInt(e.target.value))}
+                disabled={isRefining}
+                className="w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              >
+                {segmentationResult.masks.map(mask => (
+                  <option key={mask.classId} value={mask.classId}>
+                    {findClass(classes, mask.classId)?.displayName ?? mask.className}
+                  </option>
+                ))}
+              </select>
+            </div>
+            
+            <div>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm text-gray-700">Strength</label>
+                <span className="text-sm text-gray-500">{Math.round(refineStrength * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0.1"
+                max="1"
+                step="0.05"
+                value={refineStrength}
+                onChange={(e) => setRefineStrength(parseFloat(e.target.value))}
+                disabled={isRefining}
+                className="w-full"
+              />
+            </div>
+            
+            <button
+              onClick={handleRefineEdges}
+              disabled={isRefining || !image}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-medium py-2 px-3 rounded-md transition-colors"
+            >
+              {isRefining ? 'Refining...' : 'Refine edges'}
+            </button>
+          </div>
+          
+          {refineError && (
+            <p className="text-sm text-red-600">{refineError}</p>
+          )}
+        </div>
+      )}
     </div>
   )
 }
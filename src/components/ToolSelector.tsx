@@ -1,36 +1,131 @@
-import React from 'react'
-import { SEGMENTATION_CLASSES } from '../services/segmentation'
+import React, { useState } from 'react'
+import {
+  SceneProfileId,
+  SCENE_PROFILES,
+  SegmentationClass,
+  SUGGESTED_CUSTOM_CLASSES
+} from '../services/segmentation'
+import { ScribbleLabel, SelectionMode, SelectionTool } from '../types'
+import { MagicWandOptions } from '../utils/magicWand'
+import { GraphCutOptions } from '../utils/graphCut'
 
 interface ToolSelectorProps {
-  selectedTool: 'ai' | 'brush' | 'eraser' | 'polygon'
-  onToolChange: (tool: 'ai' | 'brush' | 'eraser' | 'polygon') => void
+  sceneProfile: SceneProfileId
+  onSceneProfileChange: (profile: SceneProfileId) => void
+  selectedTool: SelectionTool
+  onToolChange: (tool: SelectionTool) => void
   brushSize: number
   onBrushSizeChange: (size: number) => void
   selectedClass: number
   onClassChange: (classId: number) => void
+  classes: SegmentationClass[]
+  onAddClass: (displayName: string, color: string) => SegmentationClass // Throws when the name is invalid
+  onRemoveClass: (classId: number) => void
+  selectionMode: SelectionMode
+  onSelectionModeChange: (mode: SelectionMode) => void
+  wandOptions: MagicWandOptions
+  onWandOptionsChange: (options: MagicWandOptions) => void
+  scribbleLabel: ScribbleLabel
+  onScribbleLabelChange: (label: ScribbleLabel) => void
+  graphCutOptions: GraphCutOptions
+  onGraphCutOptionsChange: (options: GraphCutOptions) => void
 }
 
 export const ToolSelector: React.FC<ToolSelectorProps> = ({
+  sceneProfile,
+  onSceneProfileChange,
   selectedTool,
   onToolChange,
   brushSize,
   onBrushSizeChange,
   selectedClass,
-  onClassChange
+  onClassChange,
+  classes,
+  onAddClass,
+  onRemoveClass,
+  selectionMode,
+  onSelectionModeChange,
+  wandOptions,
+  onWandOptionsChange,
+  scribbleLabel,
+  onScribbleLabelChange,
+  graphCutOptions,
+  onGraphCutOptionsChange
 }) => {
+  const [newClassName, setNewClassName] = useState('')
+  const [newClassColor, setNewClassColor] = useState('#F4A261')
+  const [classError, setClassError] = useState<string | null>(null)
+
+  const handleAddClass = (displayName: string, color: string) => {
+    try {
+      const segClass = onAddClass(displayName, color)
+      onClassChange(segClass.id)
+      setNewClassName('')
+      setClassError(null)
+    } catch (err) {
+      setClassError(err instanceof Error ? err.message : 'Could not add the class')
+    }
+  }
+
+  const suggestions = SUGGESTED_CUSTOM_CLASSES.filter(suggestion =>
+    !classes.some(c => c.displayName.toLowerCase() === suggestion.displayName.toLowerCase())
+  )
+
   const tools = [
     { id: 'ai' as const, name: 'AI Detection', icon: '🤖', description: 'Automatic detection' },
     { id: 'brush' as const, name: 'Brush', icon: '🖌️', description: 'Paint areas manually' },
     { id: 'polygon' as const, name: 'Polygon', icon: '📐', description: 'Draw precise shapes' },
+    { id: 'rectangle' as const, name: 'Rectangle', icon: '⬛', description: 'Drag a box' },
+    { id: 'ellipse' as const, name: 'Ellipse', icon: '⚪', description: 'Drag round shapes' },
+    { id: 'freehand' as const, name: 'Lasso', icon: '➰', description: 'Draw a freehand outline' },
+    { id: 'lasso' as const, name: 'Magnetic Lasso', icon: '🧲', description: 'Trace along edges' },
+    { id: 'wand' as const, name: 'Magic Wand', icon: '🪄', description: 'Select similar colors' },
+    { id: 'scribble' as const, name: 'Smart Select', icon: '✍️', description: 'Scribble in and out' },
     { id: 'eraser' as const, name: 'Eraser', icon: '🧽', description: 'Remove selections' }
   ]
 
+  const scribbleLabels: { id: ScribbleLabel; name: string; activeClass: string }[] = [
+    { id: 'foreground', name: 'Inside', activeClass: 'border-green-500 bg-green-50 text-green-900' },
+    { id: 'background', name: 'Outside', activeClass: 'border-red-500 bg-red-50 text-red-900' }
+  ]
+
+  const selectionModes: { id: SelectionMode; name: string; shortcut: string }[] = [
+    { id: 'replace', name: 'New', shortcut: '' },
+    { id: 'add', name: 'Add', shortcut: 'Shift' },
+    { id: 'subtract', name: 'Subtract', shortcut: 'Alt' },
+    { id: 'intersect', name: 'Intersect', shortcut: 'Shift+Alt' }
+  ]
+
   return (
     <div className="bg-white rounded-lg shadow p-4 space-y-4">
       <h3 className="text-lg font-medium text-gray-900">Selection Tools</h3>
       
+      {/* Scene */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Scene
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+          {Object.values(SCENE_PROFILES).map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => onSceneProfileChange(profile.id)}
+              title={profile.description}
+              className={`p-2 rounded-lg border text-left transition-colors ${
+                sceneProfile === profile.id
+                  ? 'border-blue-500 bg-blue-50 text-blue-900'
+                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <div className="text-sm font-medium">{profile.displayName}</div>
+              <div className="text-xs text-gray-500">{profile.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+      
       {/* Tool Selection */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
         {tools.map(tool => (
           <button
             key={tool.id}
@@ -49,7 +144,7 @@ export const ToolSelector: React.FC<ToolSelectorProps> = ({
       </div>
 
       {/* Brush Size (for manual tools) */}
-      {(selectedTool === 'brush' || selectedTool === 'eraser') && (
+      {(selectedTool === 'brush' || selectedTool === 'eraser' || selectedTool === 'scribble') && (
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-700">
             Brush Size: {brushSize}px
@@ -65,33 +160,183 @@ export const ToolSelector: React.FC<ToolSelectorProps> = ({
         </div>
       )}
 
+      {/* Magic Wand Options */}
+      {selectedTool === 'wand' && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Tolerance: {wandOptions.tolerance}
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="60"
+              value={wandOptions.tolerance}
+              onChange={(e) => onWandOptionsChange({ ...wandOptions, tolerance: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!wandOptions.contiguous}
+              onChange={(e) => onWandOptionsChange({ ...wandOptions, contiguous: !e.target.checked })}
+            />
+            <span>Select similar colors everywhere (non-contiguous)</span>
+          </label>
+        </div>
+      )}
+
+      {/* Smart Select Options */}
+      {selectedTool === 'scribble' && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {scribbleLabels.map(label => (
+              <button
+                key={label.id}
+                onClick={() => onScribbleLabelChange(label.id)}
+                title="Hold Alt while drawing for the other side"
+                className={`p-2 rounded-lg border text-sm font-medium transition-colors ${
+                  scribbleLabel === label.id
+                    ? label.activeClass
+                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {label.name}
+              </button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Edge Smoothness: {graphCutOptions.smoothness}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={graphCutOptions.smoothness}
+              onChange={(e) => onGraphCutOptionsChange({ ...graphCutOptions, smoothness: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Selection Mode (for region tools) */}
+      {['wand', 'polygon', 'lasso', 'rectangle', 'ellipse', 'freehand'].includes(selectedTool) && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Selection Mode
+          </label>
+          <div className="grid grid-cols-4 gap-2">
+            {selectionModes.map(mode => (
+              <button
+                key={mode.id}
+                onClick={() => onSelectionModeChange(mode.id)}
+                title={mode.shortcut ? `Hold ${mode.shortcut} while clicking` : undefined}
+                className={`p-2 rounded-lg border text-sm font-medium transition-colors ${
+                  selectionMode === mode.id
+                    ? 'border-blue-500 bg-blue-50 text-blue-900'
+                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {mode.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Class Selection (for manual tools) */}
-      {selectedTool !== 'ai' && selectedTool !== 'eraser' && (
+      {selectedTool !== 'ai' && (
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-700">
             Select Area Type
           </label>
           <div className="grid grid-cols-2 gap-2">
-            {SEGMENTATION_CLASSES
+            {classes
               .filter(segClass => segClass.id !== 0) // Exclude background
               .map(segClass => (
-                <button
-                  key={segClass.id}
-                  onClick={() => onClassChange(segClass.id)}
-                  className={`flex items-center space-x-2 p-2 rounded-lg border transition-colors ${
-                    selectedClass === segClass.id
-                      ? 'border-blue-500 bg-blue-50 text-blue-900'
-                      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                  }`}
-                >
-                  <div
-                    className="w-4 h-4 rounded border border-gray-300"
-                    style={{ backgroundColor: segClass.color }}
-                  />
-                  <span className="text-sm font-medium">{segClass.displayName}</span>
-                </button>
+                <div key={segClass.id} className="relative">
+                  <button
+                    onClick={() => onClassChange(segClass.id)}
+                    className={`w-full flex items-center space-x-2 p-2 rounded-lg border transition-colors ${
+                      selectedClass === segClass.id
+                        ? 'border-blue-500 bg-blue-50 text-blue-900'
+                        : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div
+                      className="w-4 h-4 rounded border border-gray-300"
+                      style={{ backgroundColor: segClass.color }}
+                    />
+                    <span className="text-sm font-medium">{segClass.displayName}</span>
+                  </button>
+                  {segClass.custom && (
+                    <button
+                      onClick={() => onRemoveClass(segClass.id)}
+                      className="absolute top-1 right-1 text-xs text-gray-400 hover:text-red-600 px-1"
+                      title={`Remove ${segClass.displayName} and its selection`}
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
               ))}
           </div>
+          
+          {/* Custom classes */}
+          <div className="space-y-2 pt-2 border-t border-gray-100">
+            <label className="block text-sm font-medium text-gray-700">
+              Add Area Type
+            </label>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                handleAddClass(newClassName, newClassColor)
+              }}
+              className="flex items-center space-x-2"
+            >
+              <input
+                type="text"
+                value={newClassName}
+                onChange={(e) => setNewClassName(e.target.value)}
+                placeholder="e.g. Shutters"
+                className="flex-1 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+              />
+              <input
+                type="color"
+                value={newClassColor}
+                onChange={(e) => setNewClassColor(e.target.value)}
+                className="w-9 h-9 border border-gray-300 rounded-md"
+                title="Overlay color"
+              />
+              <button
+                type="submit"
+                disabled={!newClassName.trim()}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-medium py-1.5 px-3 rounded-md transition-colors"
+              >
+                Add
+              </button>
+            </form>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={suggestion.displayName}
+                    onClick={() => handleAddClass(suggestion.displayName, suggestion.color)}
+                    className="flex items-center space-x-1 px-2 py-1 rounded-full border border-gray-200 hover:bg-gray-50 text-xs text-gray-700"
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: suggestion.color }} />
+                    <span>+ {suggestion.displayName}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {classError && (
+              <p className="text-sm text-red-600">{classError}</p>
+            )}
+          </div>
         </div>
       )}
 
@@ -99,10 +344,16 @@ export const ToolSelector: React.FC<ToolSelectorProps> = ({
       <div className="bg-blue-50 p-3 rounded-lg">
         <h4 className="text-sm font-medium text-blue-900 mb-1">Instructions:</h4>
         <div className="text-sm text-blue-700">
-          {selectedTool === 'ai' && 'AI will automatically detect house features in your image.'}
-          {selectedTool === 'brush' && 'Click and drag to paint areas you want to recolor.'}
-          {selectedTool === 'polygon' && 'Click to add points, then complete the shape for precise selection.'}
-          {selectedTool === 'eraser' && 'Click and drag to remove unwanted selections.'}
+          {selectedTool === 'ai' && `AI will automatically detect ${sceneProfile === 'interior' ? 'room' : 'house'} features in your image.`}
+          {selectedTool === 'brush' && 'Click and drag to paint areas you want to recolor. Hold Alt to paint an area away, or Shift+Alt to keep only what the stroke covers.'}
+          {selectedTool === 'polygon' && 'Click to add points, then complete the shape to add it to (or cut it out of) the selected area type.'}
+          {selectedTool === 'eraser' && 'Click and drag to remove pixels from the selected area type.'}
+          {selectedTool === 'rectangle' && 'Drag a box over the area, then move or resize it with the handles and press Enter (or Apply Shape). Hold Shift while dragging to add, Alt to subtract.'}
+          {selectedTool === 'ellipse' && 'Drag an ellipse over round or arched areas, then adjust it with the handles and press Enter (or Apply Shape). Hold Shift while dragging to add, Alt to subtract.'}
+          {selectedTool === 'freehand' && 'Draw around the area in one stroke; the outline closes when you let go. Adjust it with the handles and press Enter (or Apply Shape). Hold Shift to add, Alt to subtract.'}
+          {selectedTool === 'lasso' && 'Click once on an edge, then move along it; the outline snaps to edges in the photo. Click to drop anchors at corners and click the first anchor (or Complete Lasso) to close. Hold Shift to add, Alt to subtract.'}
+          {selectedTool === 'wand' && 'Click a surface to select connected pixels of similar color. Hold Shift to add, Alt to subtract, or both to intersect.'}
+          {selectedTool === 'scribble' && 'Scribble inside the area, then outside it (or hold Alt). The region is recomputed after every stroke; add strokes where it is wrong.'}
         </div>
       </div>
     </div>
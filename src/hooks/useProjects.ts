@@ -0,0 +1,103 @@
+import { useState, useCallback, useEffect } from 'react'
+import { AppState, ImageData } from '../types'
+import { projectStorage, ProjectSession, ProjectSummary } from '../services/projectStorage'
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback
+
+export const useProjects = () => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await projectStorage.listProjects())
+    } catch (err) {
+      console.error('Failed to list projects:', err)
+      setError(getErrorMessage(err, 'Failed to load projects'))
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshProjects()
+  }, [refreshProjects])
+
+  // Resolves to null when the project couldn't be stored
+  const createProject = useCallback(async (name: string, image: ImageData, session: ProjectSession) => {
+    try {
+      setError(null)
+      return await projectStorage.createProject(name, image, session)
+    } catch (err) {
+      console.error('Failed to create project:', err)
+      setError(getErrorMessage(err, 'Failed to save project'))
+      return null
+    }
+  }, [])
+
+  const saveProject = useCallback(async (project: AppState['project'], session: ProjectSession) => {
+    setIsSaving(true)
+    try {
+      await projectStorage.saveProject(project, session)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to save project:', err)
+      setError(getErrorMessage(err, 'Failed to save project'))
+    } finally {
+      setIsSaving(false)
+    }
+  }, [])
+
+  // Resolves to null when the project couldn't be read
+  const openProject = useCallback(async (id: string) => {
+    try {
+      setError(null)
+      return await projectStorage.loadProject(id)
+    } catch (err) {
+      console.error('Failed to open project:', err)
+      setError(getErrorMessage(err, 'Failed to open project'))
+      return null
+    }
+  }, [])
+
+  // Runs a gallery change, then reloads the list to show it
+  const updateGallery = useCallback(async (change: () => Promise<unknown>, failure: string) => {
+    try {
+      setError(null)
+      await change()
+    } catch (err) {
+      console.error(`${failure}:`, err)
+      setError(getErrorMessage(err, failure))
+    }
+    await refreshProjects()
+  }, [refreshProjects])
+
+  const renameProject = useCallback((id: string, name: string) =>
+    updateGallery(() => projectStorage.renameProject(id, name), 'Failed to rename project'), [updateGallery])
+
+  const duplicateProject = useCallback((id: string, name: string) =>
+    updateGallery(() => projectStorage.duplicateProject(id, name), 'Failed to duplicate project'), [updateGallery])
+
+  const deleteProject = useCallback((id: string) =>
+    updateGallery(() => projectStorage.deleteProject(id), 'Failed to delete project'), [updateGallery])
+
+  // A thumbnail is a nicety, so failing to store one isn't reported
+  const saveThumbnail = useCallback((id: string, image: globalThis.ImageData) => {
+    projectStorage.saveThumbnail(id, image).catch(err => console.warn('Failed to save thumbnail:', err))
+  }, [])
+
+  return {
+    projects,
+    refreshProjects,
+    createProject,
+    saveProject,
+    openProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    saveThumbnail,
+    isSaving,
+    error,
+    clearError: () => setError(null)
+  }
+}
@@ -1,30 +1,68 @@
-import { useState, useCallback } from 'react'
-import { segmentationService, SegmentationResult } from '../services/segmentation'
+import { useState, useCallback, useRef, useEffect } from 'react'
+import {
+  segmentationService,
+  SegmentationResult,
+  SegmentationBackendId,
+  DEFAULT_SEGMENTATION_BACKEND,
+  DEFAULT_SCENE_PROFILE,
+  SceneProfileId
+} from '../services/segmentation'
+import { processingWorker, isAbortError } from '../services/processingWorker'
 
-export const useSegmentation = () => {
+export const useSegmentation = (
+  backendId: SegmentationBackendId = DEFAULT_SEGMENTATION_BACKEND,
+  profile: SceneProfileId = DEFAULT_SCENE_PROFILE
+) => {
   const [isSegmenting, setIsSegmenting] = useState(false)
+  const [progress, setProgress] = useState(0)
   const [segmentationResult, setSegmentationResult] = useState<SegmentationResult | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
+  // Resolves to null when the run was cancelled
   const segmentImage = useCallback(async (imageElement: HTMLImageElement) => {
+    // Starting a new run cancels any segmentation still in flight
+    abortControllerRef.current?.abort()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+
     try {
       setIsSegmenting(true)
+      setProgress(0)
       setError(null)
-      
-      const result = await segmentationService.segmentImage(imageElement)
+
+      const imageData = segmentationService.getImageData(imageElement)
+      const result = await processingWorker.segment(imageData, backendId, {
+        signal: abortController.signal,
+        onProgress: setProgress,
+        profile
+      })
       setSegmentationResult(result)
-      
+
       return result
     } catch (err) {
+      if (isAbortError(err)) {
+        return null
+      }
       const errorMessage = err instanceof Error ? err.message : 'Segmentation failed'
       setError(errorMessage)
       console.error('Segmentation error:', err)
       throw err
     } finally {
-      setIsSegmenting(false)
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+        setIsSegmenting(false)
+      }
     }
+  }, [backendId, profile])
+
+  const cancelSegmentation = useCallback(() => {
+    abortControllerRef.current?.abort()
   }, [])
 
+  // Don't leave a worker running after the component goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
   const clearSegmentation = useCallback(() => {
     setSegmentationResult(null)
     setError(null)
@@ -36,11 +74,16 @@ export const useSegmentation = () => {
 
   return {
     segmentImage,
+    cancelSegmentation,
     clearSegmentation,
     clearError,
     isSegmenting,
+    progress,
     segmentationResult,
+    // Backend that actually produced the result, which differs from the
+    // requested one when it fell back to the classical segmenter
+    resultBackend: segmentationResult?.backend ?? null,
     error,
     hasSegmentation: segmentationResult !== null
   }
-}
\ No newline at end of file
+}
@@ -6,6 +6,14 @@ export interface ApiResponse<T> {
   error?: string
 }
 
+export interface RemoteSegment {
+  classId: number
+  confidence: number
+  width: number
+  height: number
+  mask: string // Base64, one byte per pixel, non-zero where the class is present
+}
+
 class ApiService {
   private async request<T>(
     endpoint: string,
@@ -65,7 +73,7 @@ class ApiService {
     })
   }
 
-  async autoSegment(imageId: string): Promise<ApiResponse<{ segments: unknown[] }>> {
+  async autoSegment(imageId: string): Promise<ApiResponse<{ segments: RemoteSegment[] }>> {
     return this.request('/segment/auto', {
       method: 'POST',
       body: JSON.stringify({ imageId }),
@@ -1,11 +1,84 @@
 // Color processing service for realistic house color changes
 // Preserves texture, shadows, and lighting while changing hue
 
+import { BlendMode, Sheen } from '../types'
+import { LabColor, labToRgb, oklabToRgb, rgbToLab, rgbToOklab } from '../utils/colorUtils'
+import { DEFAULT_SCENE_PROFILE, getSceneProfile, SceneProfileId } from './segmentation/profiles'
+
+// 'hsl' swaps hue in HSL; 'oklab' and 'lab' keep each pixel's perceptual
+// lightness and take chroma and hue from the target color
+export type RecolorMode = 'hsl' | 'oklab' | 'lab'
+
+// 'preserve' keeps every pixel's lightness; 'match' shifts the region's lightness
+// toward the paint color while keeping its local contrast
+export type LightnessMode = 'preserve' | 'match'
+
 export interface ColorChangeOptions {
   newColor: string // Hex color (e.g., "#FF6B6B")
   preserveTexture: boolean
-  blendEdges: boolean
+  blendEdges: boolean // Feather mask boundaries (see featherRadius and edgeContrast)
   intensity: number // 0-1, how strong the color change should be
+  mode?: RecolorMode // Defaults to 'hsl'
+  lightness?: LightnessMode // Defaults to 'preserve'; only used with preserveTexture
+  sheen?: Sheen // Unset keeps the finish seen in the photo; only used with preserveTexture
+  featherRadius?: number // Pixels the boundary fades over when blendEdges is on, defaults to 2
+  edgeContrast?: number // 0-1, how strongly photo edges keep the boundary crisp, defaults to 0.7
+  opacity?: number // 0-1, how much of the recolored layer shows over the photo, defaults to 1
+  blendMode?: BlendMode // How recolored pixels combine with the photo, defaults to 'normal'
+}
+
+export const DEFAULT_FEATHER_RADIUS = 2
+export const DEFAULT_EDGE_CONTRAST = 0.7
+// Sobel magnitude (on 0-255 luminance) treated as a full-strength photo edge
+const EDGE_GRADIENT_SCALE = 160
+
+// How a finish reshapes a region's shading. Highlights are pixels more than
+// threshold standard deviations above the region mean, ramping in over spread.
+interface SheenProfile {
+  contrast: number // Scales deviations from the region mean
+  highlight: number // > 0 pushes highlights toward white, < 0 flattens them into the mean
+  threshold: number
+  spread: number
+}
+
+const SHEEN_PROFILES: Record<Sheen, SheenProfile> = {
+  flat: { contrast: 0.85, highlight: -0.7, threshold: 0.5, spread: 1 },
+  eggshell: { contrast: 0.92, highlight: -0.35, threshold: 0.75, spread: 1 },
+  satin: { contrast: 1, highlight: 0.15, threshold: 1, spread: 1 },
+  'semi-gloss': { contrast: 1.08, highlight: 0.4, threshold: 1.3, spread: 0.8 },
+  gloss: { contrast: 1.15, highlight: 0.7, threshold: 1.6, spread: 0.6 }
+}
+
+// Lightness statistics of one region and the adjustments derived from them
+interface RegionShading {
+  mean: number
+  std: number
+  range: number // 100 for HSL and CIELAB, 1 for OKLab
+  targetMean: number | null // Set when lightness: 'match' moves the region onto the paint color
+  contrast: number
+  sheen: SheenProfile | null
+}
+
+// Keep at least this share of the original local contrast near black or white
+const MIN_LIGHTNESS_CONTRAST = 0.35
+
+// Combine one 0-255 channel of the photo (base) with the recolored layer
+const blendChannel = (base: number, layer: number, mode: BlendMode): number => {
+  switch (mode) {
+    case 'multiply':
+      return (base * layer) / 255
+    case 'screen':
+      return 255 - ((255 - base) * (255 - layer)) / 255
+    case 'overlay':
+      return base < 128
+        ? (2 * base * layer) / 255
+        : 255 - (2 * (255 - base) * (255 - layer)) / 255
+    case 'soft-light':
+      // Pegtop's formula, continuous where Photoshop's isn't
+      return ((255 - 2 * layer) * base * base) / (255 * 255) + (2 * layer * base) / 255
+    default:
+      return layer
+  }
 }
 
 export interface ProcessingResult {
@@ -34,9 +107,8 @@ class ColorProcessor {
 
     const max = Math.max(r, g, b)
     const min = Math.min(r, g, b)
-    let h: number, s: number, l: number
-
-    l = (max + min) / 2
+    let h: number, s: number
+    const l = (max + min) / 2
 
     if (max === min) {
       h = s = 0 // achromatic
@@ -109,7 +181,22 @@ class ColorProcessor {
   async applyColorChange(
     originalImageData: globalThis.ImageData,
     mask: Uint8Array,
-    options: ColorChangeOptions
+    options: ColorChangeOptions,
+    onProgress?: (progress: number) => void // 0-1, reported roughly every 5% of the image
+  ): Promise<ProcessingResult> {
+    const labels = mask.map(value => (value > 0 ? 1 : 0))
+    return this.applyColorScheme(originalImageData, labels, [options], onProgress)
+  }
+
+  // Recolor several regions in one pass. labels[i] is a 1-based index into
+  // regions (0 leaves the pixel untouched), so each region gets its own target.
+  // coverage optionally gives each labelled pixel a 0-255 soft mask value.
+  async applyColorScheme(
+    originalImageData: globalThis.ImageData,
+    labels: Uint8Array,
+    regions: ColorChangeOptions[],
+    onProgress?: (progress: number) => void,
+    coverage?: Uint8Array
   ): Promise<ProcessingResult> {
     const startTime = performance.now()
     
@@ -120,154 +207,465 @@ class ColorProcessor {
       height
     )
 
-    // Convert new color to HSL
-    const newRgb = this.hexToRgb(options.newColor)
-    const newHsl = this.rgbToHsl(newRgb.r, newRgb.g, newRgb.b)
+    // Convert each region's new color once, into the space its mode works in
+    const targets = regions.map(region => {
+      const newRgb = this.hexToRgb(region.newColor)
+      return {
+        hsl: this.rgbToHsl(newRgb.r, newRgb.g, newRgb.b),
+        lab: region.mode === 'oklab'
+          ? rgbToOklab(newRgb.r, newRgb.g, newRgb.b)
+          : rgbToLab(newRgb.r, newRgb.g, newRgb.b)
+      }
+    })
+
+    const shadings = this.computeRegionShading(originalImageData, labels, regions, targets)
+    const blend = this.computeBlendAlpha(originalImageData, labels, regions, coverage)
+
+    const progressInterval = Math.max(1, Math.floor(labels.length / 20))
 
     // Process each pixel
-    for (let i = 0; i < mask.length; i++) {
-      if (mask[i] > 0) { // Pixel is selected
-        const pixelIndex = i * 4
-        const originalR = originalImageData.data[pixelIndex]
-        const originalG = originalImageData.data[pixelIndex + 1]
-        const originalB = originalImageData.data[pixelIndex + 2]
-
-        // Convert original pixel to HSL
-        const originalHsl = this.rgbToHsl(originalR, originalG, originalB)
-
-        // Create new color by replacing hue but preserving saturation and lightness
-        let newH = newHsl.h
-        let newS = originalHsl.s
-        let newL = originalHsl.l
-
-        // Adjust saturation slightly to match new color's characteristics
-        if (options.preserveTexture) {
-          // For very dark or light areas, reduce saturation to preserve shadows/highlights
-          if (originalHsl.l < 15) {
-            newS = Math.min(newS, 20) // Very dark shadows - minimal saturation
-          } else if (originalHsl.l > 85) {
-            newS = Math.min(newS, 30) // Very bright highlights - minimal saturation
-          } else {
-            // Mid-tones: use more of the new color's saturation for visibility
-            newS = originalHsl.s * 0.4 + newHsl.s * 0.6
-            // Ensure minimum saturation for visible color change
-            newS = Math.max(newS, 25)
-          }
-        } else {
-          // If not preserving texture, use the target color's HSL values directly for maximum visibility
-          newH = newHsl.h
-          newS = newHsl.s
-          newL = newHsl.l
+    for (let i = 0; i < labels.length; i++) {
+      if (onProgress && i % progressInterval === 0) {
+        onProgress(i / labels.length)
+      }
+
+      const blendFactor = blend.alpha[i]
+      if (blendFactor === 0) continue
+
+      const regionIndex = blend.labels[i] - 1
+      const options = regions[regionIndex]
+      if (!options) continue // Pixel is not selected
+
+      const pixelIndex = i * 4
+      const originalR = originalImageData.data[pixelIndex]
+      const originalG = originalImageData.data[pixelIndex + 1]
+      const originalB = originalImageData.data[pixelIndex + 2]
+
+      const target = targets[regionIndex]
+      const newRgbPixel = options.mode === 'oklab' || options.mode === 'lab'
+        ? this.recolorPixelPerceptual(originalR, originalG, originalB, target.lab, options, shadings[regionIndex])
+        : this.recolorPixel(originalR, originalG, originalB, target.hsl, options, shadings[regionIndex])
+
+      // Layer blend mode against the photo, then edge blending and layer opacity
+      const layerFactor = blendFactor * (options.opacity ?? 1)
+      const blendMode = options.blendMode ?? 'normal'
+      newImageData.data[pixelIndex] = Math.round(
+        originalR + (blendChannel(originalR, newRgbPixel.r, blendMode) - originalR) * layerFactor
+      )
+      newImageData.data[pixelIndex + 1] = Math.round(
+        originalG + (blendChannel(originalG, newRgbPixel.g, blendMode) - originalG) * layerFactor
+      )
+      newImageData.data[pixelIndex + 2] = Math.round(
+        originalB + (blendChannel(originalB, newRgbPixel.b, blendMode) - originalB) * layerFactor
+      )
+    }
+
+    const processingTime = performance.now() - startTime
+    return {
+      imageData: newImageData,
+      processingTime
+    }
+  }
+
+  // Replace a pixel's hue with the target while keeping its lighting
+  private recolorPixel(
+    originalR: number,
+    originalG: number,
+    originalB: number,
+    newHsl: ColorHSL,
+    options: ColorChangeOptions,
+    shading: RegionShading | null = null
+  ): ColorRGB {
+    // Convert original pixel to HSL
+    const originalHsl = this.rgbToHsl(originalR, originalG, originalB)
+
+    // Create new color by replacing hue but preserving saturation and lightness
+    let newH = newHsl.h
+    let newS = originalHsl.s
+    let newL = originalHsl.l
+    let chromaScale = 1
+
+    // Adjust saturation slightly to match new color's characteristics
+    if (options.preserveTexture) {
+      if (shading) {
+        const shaded = this.shadeLightness(originalHsl.l, shading)
+        newL = originalHsl.l + (shaded.l - originalHsl.l) * options.intensity
+        chromaScale = shaded.chromaScale
+      }
+
+      // For very dark or light areas, reduce saturation to preserve shadows/highlights
+      if (newL < 15) {
+        newS = Math.min(newS, 20) // Very dark shadows - minimal saturation
+      } else if (newL > 85) {
+        newS = Math.min(newS, 30) // Very bright highlights - minimal saturation
+      } else {
+        // Mid-tones: use more of the new color's saturation for visibility
+        newS = originalHsl.s * 0.4 + newHsl.s * 0.6
+        // Ensure minimum saturation for visible color change
+        newS = Math.max(newS, 25)
+      }
+      newS *= chromaScale
+    } else {
+      // If not preserving texture, use the target color's HSL values directly for maximum visibility
+      newH = newHsl.h
+      newS = newHsl.s
+      newL = newHsl.l
+    }
+
+    // Apply intensity factor
+    if (options.intensity < 1) {
+      // Blend between original and new hue
+      const hDiff = newH - originalHsl.h
+      newH = originalHsl.h + (hDiff * options.intensity)
+      newS = originalHsl.s + ((newS - originalHsl.s) * options.intensity)
+    }
+
+    // Convert back to RGB
+    return this.hslToRgb(newH, newS, newL)
+  }
+
+  // Same idea in OKLab or CIELAB. Lightness is kept unrounded, so smooth gradients
+  // don't band and blues don't darken relative to yellows.
+  private recolorPixelPerceptual(
+    originalR: number,
+    originalG: number,
+    originalB: number,
+    target: LabColor,
+    options: ColorChangeOptions,
+    shading: RegionShading | null = null
+  ): ColorRGB {
+    const isOklab = options.mode === 'oklab'
+    const original = isOklab
+      ? rgbToOklab(originalR, originalG, originalB)
+      : rgbToLab(originalR, originalG, originalB)
+
+    let newL = original.l
+    let chromaScale = 1
+    if (options.preserveTexture) {
+      if (shading) {
+        const shaded = this.shadeLightness(original.l, shading)
+        newL = shaded.l
+        chromaScale = shaded.chromaScale
+      }
+
+      // Fade the color out of near-black shadows and blown highlights
+      const relativeL = newL / (isOklab ? 1 : 100)
+      chromaScale *= Math.max(0, Math.min(1, relativeL / 0.15, (1 - relativeL) / 0.15))
+    } else {
+      newL = target.l
+    }
+
+    const recolored: LabColor = {
+      l: original.l + (newL - original.l) * options.intensity,
+      a: original.a + (target.a * chromaScale - original.a) * options.intensity,
+      b: original.b + (target.b * chromaScale - original.b) * options.intensity
+    }
+
+    return isOklab ? oklabToRgb(recolored) : labToRgb(recolored)
+  }
+
+  // Lightness of a pixel in the scale the given mode works in
+  private getLightness(r: number, g: number, b: number, mode: RecolorMode = 'hsl'): number {
+    switch (mode) {
+      case 'oklab': return rgbToOklab(r, g, b).l
+      case 'lab': return rgbToLab(r, g, b).l
+      default: return this.rgbToHsl(r, g, b).l
+    }
+  }
+
+  // Measure each region's lightness distribution when it uses lightness: 'match'
+  // or a sheen. Matching only compresses contrast when the deviations wouldn't
+  // fit next to the target, e.g. a textured mid-gray wall painted white.
+  private computeRegionShading(
+    imageData: globalThis.ImageData,
+    labels: Uint8Array,
+    regions: ColorChangeOptions[],
+    targets: { hsl: ColorHSL; lab: LabColor }[]
+  ): (RegionShading | null)[] {
+    const needsShading = regions.map(region =>
+      region.preserveTexture && (region.lightness === 'match' || region.sheen !== undefined)
+    )
+    if (!needsShading.some(Boolean)) {
+      return regions.map(() => null)
+    }
+
+    const sums = new Float64Array(regions.length)
+    const squareSums = new Float64Array(regions.length)
+    const counts = new Uint32Array(regions.length)
+
+    for (let i = 0; i < labels.length; i++) {
+      const regionIndex = labels[i] - 1
+      if (!needsShading[regionIndex]) continue
+
+      const p = i * 4
+      const l = this.getLightness(imageData.data[p], imageData.data[p + 1], imageData.data[p + 2], regions[regionIndex].mode)
+      sums[regionIndex] += l
+      squareSums[regionIndex] += l * l
+      counts[regionIndex]++
+    }
+
+    return regions.map((region, index) => {
+      if (!needsShading[index] || counts[index] === 0) return null
+
+      const range = region.mode === 'oklab' ? 1 : 100
+      const mean = sums[index] / counts[index]
+      const std = Math.sqrt(Math.max(0, squareSums[index] / counts[index] - mean * mean))
+
+      let targetMean: number | null = null
+      let contrast = 1
+      if (region.lightness === 'match') {
+        const isPerceptual = region.mode === 'oklab' || region.mode === 'lab'
+        targetMean = isPerceptual ? targets[index].lab.l : targets[index].hsl.l
+        const headroom = Math.min(targetMean, range - targetMean)
+        contrast = std > 0 ? Math.max(MIN_LIGHTNESS_CONTRAST, Math.min(1, headroom / (2 * std))) : 1
+      }
+
+      return {
+        mean,
+        std,
+        range,
+        targetMean,
+        contrast,
+        sheen: region.sheen ? SHEEN_PROFILES[region.sheen] : null
+      }
+    })
+  }
+
+  // New lightness for a pixel, plus how much chroma survives (specular
+  // highlights on glossy paint reflect the light, not the paint color)
+  private shadeLightness(l: number, shading: RegionShading): { l: number; chromaScale: number } {
+    const center = shading.targetMean ?? shading.mean
+    let newL = center + (l - shading.mean) * shading.contrast
+    let chromaScale = 1
+
+    const { sheen } = shading
+    if (sheen) {
+      newL = center + (newL - center) * sheen.contrast
+
+      const z = shading.std > 0 ? (l - shading.mean) / shading.std : 0
+      const t = Math.max(0, Math.min(1, (z - sheen.threshold) / sheen.spread))
+      const weight = t * t * (3 - 2 * t) // smoothstep
+
+      if (sheen.highlight > 0) {
+        newL += (shading.range - newL) * sheen.highlight * weight
+        chromaScale = 1 - sheen.highlight * weight * 0.7
+      } else {
+        newL += (center - newL) * -sheen.highlight * weight
+      }
+    }
+
+    return {
+      l: Math.max(0, Math.min(shading.range, newL)),
+      chromaScale
+    }
+  }
+
+  // Per-pixel blend weight. Without feathering this is just the mask coverage.
+  // With blendEdges the coverage is box-blurred over featherRadius, spilling into
+  // unlabelled neighbours, then re-sharpened wherever the photo itself has an
+  // edge so boundaries snap to gutters and trim instead of leaving halos.
+  private computeBlendAlpha(
+    imageData: globalThis.ImageData,
+    labels: Uint8Array,
+    regions: ColorChangeOptions[],
+    coverage?: Uint8Array
+  ): { labels: Uint8Array; alpha: Float32Array } {
+    const { width, height, data } = imageData
+    const base = new Float32Array(labels.length)
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] > 0) {
+        base[i] = coverage ? coverage[i] / 255 : 1
+      }
+    }
+
+    const radii = regions.map(region =>
+      region.blendEdges ? Math.max(0, Math.round(region.featherRadius ?? DEFAULT_FEATHER_RADIUS)) : 0
+    )
+    if (!radii.some(radius => radius > 0)) {
+      return { labels, alpha: base }
+    }
+
+    const spreadLabels = this.spreadLabels(labels, width, height, radii)
+
+    // Summed-area table so every region can use its own blur radius at O(1) per pixel
+    const stride = width + 1
+    const integral = new Float64Array(stride * (height + 1))
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0
+      for (let x = 0; x < width; x++) {
+        rowSum += base[y * width + x]
+        integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum
+      }
+    }
+
+    const edges = this.computeEdgeStrength(data, width, height, Math.max(...radii))
+
+    const alpha = new Float32Array(labels.length)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x
+        const label = spreadLabels[i]
+        if (label === 0) continue
+
+        const radius = radii[label - 1]
+        if (radius === 0) {
+          alpha[i] = base[i]
+          continue
         }
 
-        // Apply intensity factor
-        if (options.intensity < 1) {
-          // Blend between original and new hue
-          const hDiff = newH - originalHsl.h
-          newH = originalHsl.h + (hDiff * options.intensity)
-          newS = originalHsl.s + ((newS - originalHsl.s) * options.intensity)
+        const left = Math.max(0, x - radius)
+        const right = Math.min(width, x + radius + 1)
+        const top = Math.max(0, y - radius)
+        const bottom = Math.min(height, y + radius + 1)
+        const sum = integral[bottom * stride + right] - integral[top * stride + right]
+          - integral[bottom * stride + left] + integral[top * stride + left]
+        const feathered = sum / ((right - left) * (bottom - top))
+        if (feathered <= 0 || feathered >= 0.999) {
+          alpha[i] = feathered > 0 ? 1 : 0
+          continue
         }
 
-        // Convert back to RGB
-        const newRgbPixel = this.hslToRgb(newH, newS, newL)
+        // A strong photo edge nearby narrows the ramp around the 0.5 boundary towards a hard step
+        const edgeContrast = regions[label - 1].edgeContrast ?? DEFAULT_EDGE_CONTRAST
+        const softness = Math.max(0.05, 1 - edgeContrast * edges[i])
+        alpha[i] = Math.max(0, Math.min(1, (feathered - 0.5) / softness + 0.5))
+      }
+    }
 
-        // Apply edge blending for smooth transitions
-        let blendFactor = 1
-        if (options.blendEdges) {
-          blendFactor = this.calculateEdgeBlending(mask, i, width, height)
-        }
+    return { labels: spreadLabels, alpha }
+  }
 
-        // Set new pixel values with blending
-        newImageData.data[pixelIndex] = Math.round(
-          originalR + (newRgbPixel.r - originalR) * blendFactor
-        )
-        newImageData.data[pixelIndex + 1] = Math.round(
-          originalG + (newRgbPixel.g - originalG) * blendFactor
-        )
-        newImageData.data[pixelIndex + 2] = Math.round(
-          originalB + (newRgbPixel.b - originalB) * blendFactor
-        )
+  // Give unlabelled pixels within a region's feather radius that region's label
+  // (nearest region wins), so the feather can fade outside the mask
+  private spreadLabels(labels: Uint8Array, width: number, height: number, radii: number[]): Uint8Array {
+    const spread = labels.slice()
+    const distance = new Uint16Array(labels.length)
+    const queue = new Int32Array(labels.length)
+    let head = 0
+    let tail = 0
+
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] > 0 && radii[labels[i] - 1] > 0) {
+        queue[tail++] = i
       }
     }
 
-    const processingTime = performance.now() - startTime
-    return {
-      imageData: newImageData,
-      processingTime
+    while (head < tail) {
+      const i = queue[head++]
+      const label = spread[i]
+      const nextDistance = distance[i] + 1
+      if (nextDistance > radii[label - 1]) continue
+
+      const x = i % width
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i < width * (height - 1) ? i + width : -1
+      ]
+      for (const n of neighbours) {
+        if (n < 0 || spread[n] !== 0) continue
+        spread[n] = label
+        distance[n] = nextDistance
+        queue[tail++] = n
+      }
     }
+
+    return spread
   }
 
-  // Calculate edge blending factor for smooth transitions
-  private calculateEdgeBlending(
-    mask: Uint8Array, 
-    pixelIndex: number, 
-    width: number, 
-    height: number
-  ): number {
-    const x = pixelIndex % width
-    const y = Math.floor(pixelIndex / width)
-    
-    // Check neighboring pixels to see if we're at an edge
-    let selectedNeighbors = 0
-    let totalNeighbors = 0
-    
-    for (let dy = -2; dy <= 2; dy++) {
-      for (let dx = -2; dx <= 2; dx++) {
-        const nx = x + dx
-        const ny = y + dy
-        
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          const neighborIndex = ny * width + nx
-          totalNeighbors++
-          if (mask[neighborIndex] > 0) {
-            selectedNeighbors++
-          }
+  // 0-1 Sobel edge strength of the photo, spread with a max filter over radius
+  // so the whole feather band sees the edge the boundary sits on
+  private computeEdgeStrength(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    radius: number
+  ): Float32Array {
+    const luminance = new Float32Array(width * height)
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    }
+
+    const at = (x: number, y: number) =>
+      luminance[Math.max(0, Math.min(height - 1, y)) * width + Math.max(0, Math.min(width - 1, x))]
+
+    const edges = new Float32Array(width * height)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)
+          - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+        const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)
+          - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+        edges[y * width + x] = Math.min(1, Math.sqrt(gx * gx + gy * gy) / EDGE_GRADIENT_SCALE)
+      }
+    }
+
+    // Separable max filter: rows, then columns
+    const rowMax = new Float32Array(width * height)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let max = 0
+        for (let dx = Math.max(0, x - radius); dx <= Math.min(width - 1, x + radius); dx++) {
+          max = Math.max(max, edges[y * width + dx])
         }
+        rowMax[y * width + x] = max
       }
     }
-    
-    // Return blend factor (1.0 for fully inside, 0.5-0.8 for edges)
-    const edgeRatio = selectedNeighbors / totalNeighbors
-    return Math.max(0.5, edgeRatio)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let max = 0
+        for (let dy = Math.max(0, y - radius); dy <= Math.min(height - 1, y + radius); dy++) {
+          max = Math.max(max, rowMax[dy * width + x])
+        }
+        edges[y * width + x] = max
+      }
+    }
+
+    return edges
   }
 
   // Create optimized preview (lower resolution for real-time updates)
   async createPreview(
     originalImageData: globalThis.ImageData,
-    mask: Uint8Array,
-    options: ColorChangeOptions,
-    previewScale: number = 0.25
+    labels: Uint8Array,
+    regions: ColorChangeOptions[],
+    previewScale: number = 0.25,
+    onProgress?: (progress: number) => void,
+    coverage?: Uint8Array
   ): Promise<ProcessingResult> {
     const scaledWidth = Math.floor(originalImageData.width * previewScale)
     const scaledHeight = Math.floor(originalImageData.height * previewScale)
     
-    // Downsample image and mask for faster processing
+    // Downsample image and label map for faster processing
     const scaledImageData = this.downsampleImageData(originalImageData, scaledWidth, scaledHeight)
-    const scaledMask = this.downsampleMask(mask, originalImageData.width, originalImageData.height, scaledWidth, scaledHeight)
+    const scaledLabels = this.downsampleMask(labels, originalImageData.width, originalImageData.height, scaledWidth, scaledHeight)
+    const scaledCoverage = coverage
+      ? this.downsampleMask(coverage, originalImageData.width, originalImageData.height, scaledWidth, scaledHeight)
+      : undefined
     
-    return this.applyColorChange(scaledImageData, scaledMask, {
-      ...options,
-      blendEdges: false // Skip edge blending for preview performance
-    })
+    // Skip edge blending for preview performance
+    return this.applyColorScheme(
+      scaledImageData,
+      scaledLabels,
+      regions.map(region => ({ ...region, blendEdges: false })),
+      onProgress,
+      scaledCoverage
+    )
   }
 
-  // Downsample image data for preview
+  // Downsample image data for preview (OffscreenCanvas so this also runs in the worker)
   private downsampleImageData(
     imageData: globalThis.ImageData, 
     newWidth: number, 
     newHeight: number
   ): globalThis.ImageData {
-    const canvas = document.createElement('canvas')
+    const canvas = new OffscreenCanvas(imageData.width, imageData.height)
     const ctx = canvas.getContext('2d')!
-    
-    canvas.width = imageData.width
-    canvas.height = imageData.height
     ctx.putImageData(imageData, 0, 0)
     
-    const tempCanvas = document.createElement('canvas')
+    const tempCanvas = new OffscreenCanvas(newWidth, newHeight)
     const tempCtx = tempCanvas.getContext('2d')!
-    tempCanvas.width = newWidth
-    tempCanvas.height = newHeight
     
     tempCtx.drawImage(canvas, 0, 0, newWidth, newHeight)
     return tempCtx.getImageData(0, 0, newWidth, newHeight)
@@ -343,7 +741,7 @@ class ColorProcessor {
   }
 
   // Get color recommendations based on house style and existing colors
-  getColorRecommendations(originalColor: string): string[] {
+  getColorRecommendations(originalColor: string, profile: SceneProfileId = DEFAULT_SCENE_PROFILE): string[] {
     const originalRgb = this.hexToRgb(originalColor)
     const originalHsl = this.rgbToHsl(originalRgb.r, originalRgb.g, originalRgb.b)
     
@@ -357,19 +755,8 @@ class ColorProcessor {
     recommendations.push(this.hslToHex((originalHsl.h + 30) % 360, originalHsl.s, originalHsl.l))
     recommendations.push(this.hslToHex((originalHsl.h - 30 + 360) % 360, originalHsl.s, originalHsl.l))
     
-    // Popular house colors
-    const popularColors = [
-      '#F5F5DC', // Beige
-      '#D2B48C', // Tan
-      '#8B7355', // Dark Khaki
-      '#696969', // Dim Gray
-      '#2F4F4F', // Dark Slate Gray
-      '#8B4513', // Saddle Brown
-      '#CD853F', // Peru
-      '#A0522D'  // Sienna
-    ]
-    
-    recommendations.push(...popularColors.slice(0, 3))
+    // Popular colors for the kind of scene being painted
+    recommendations.push(...getSceneProfile(profile).popularColors.slice(0, 3))
     
     return recommendations
   }
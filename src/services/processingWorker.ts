@@ -0,0 +1,204 @@
+import { ColorChangeOptions, ProcessingResult } from './colorProcessor'
+import { SegmentationBackendId, SegmentationMask, SegmentationResult } from './segmentation/types'
+import { SceneProfileId } from './segmentation/profiles'
+import { RefineEdgesOptions } from '../utils/maskRefinement'
+import { GraphCutOptions } from '../utils/graphCut'
+import { RecolorJobResult, WorkerJobRequest, WorkerJobResponse } from '../workers/types'
+
+export interface JobOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void // 0-1
+}
+
+export interface SegmentJobOptions extends JobOptions {
+  profile?: SceneProfileId
+}
+
+export interface ScribbleJobOptions extends JobOptions {
+  previousMask?: Uint8Array // Refine this region instead of starting from the scribbles alone
+}
+
+export interface RecolorJobOptions extends JobOptions {
+  previewScale?: number
+  coverage?: Uint8Array // Soft mask coverage to blend with, see ColorProcessor.applyColorScheme
+}
+
+// Each kind of job gets its own worker so cancelling one never kills another;
+// Smart Select cancels its last cut on every stroke, for one
+type WorkerKind = 'segmentation' | 'recolor' | 'refine' | 'scribble'
+
+interface PendingJob {
+  kind: WorkerKind
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+  onProgress?: (progress: number) => void
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError'
+
+// Copy pixels into a standalone buffer we can transfer without detaching the caller's data
+const copyBuffer = (data: Uint8Array | Uint8ClampedArray): ArrayBuffer =>
+  data.slice().buffer as ArrayBuffer
+
+class ProcessingWorkerClient {
+  private workers = new Map<WorkerKind, Worker>()
+  private pending = new Map<number, PendingJob>()
+  private nextJobId = 1
+
+  segment(
+    image: globalThis.ImageData,
+    backendId: SegmentationBackendId,
+    options: SegmentJobOptions = {}
+  ): Promise<SegmentationResult> {
+    const buffer = copyBuffer(image.data)
+    return this.run<SegmentationResult>('segmentation', id => ({
+      type: 'segment',
+      id,
+      image: { buffer, width: image.width, height: image.height },
+      backendId,
+      profile: options.profile
+    }), [buffer], options)
+  }
+
+  // labels holds a 1-based index into regions per pixel (see ColorProcessor.applyColorScheme)
+  async recolor(
+    image: globalThis.ImageData,
+    labels: Uint8Array,
+    regions: ColorChangeOptions[],
+    options: RecolorJobOptions = {}
+  ): Promise<ProcessingResult> {
+    const buffer = copyBuffer(image.data)
+    const labelBuffer = copyBuffer(labels)
+    const coverageBuffer = options.coverage ? copyBuffer(options.coverage) : undefined
+    const result = await this.run<RecolorJobResult>('recolor', id => ({
+      type: 'recolor',
+      id,
+      image: { buffer, width: image.width, height: image.height },
+      labels: labelBuffer,
+      regions,
+      coverage: coverageBuffer,
+      previewScale: options.previewScale
+    }), coverageBuffer ? [buffer, labelBuffer, coverageBuffer] : [buffer, labelBuffer], options)
+
+    return {
+      imageData: new ImageData(new Uint8ClampedArray(result.image.buffer), result.image.width, result.image.height),
+      processingTime: result.processingTime
+    }
+  }
+
+  // Resolves to a copy of the mask with soft alpha
+  refineMask(
+    image: globalThis.ImageData,
+    mask: SegmentationMask,
+    refineOptions: RefineEdgesOptions,
+    options: JobOptions = {}
+  ): Promise<SegmentationMask> {
+    const buffer = copyBuffer(image.data)
+    return this.run<SegmentationMask>('refine', id => ({
+      type: 'refine',
+      id,
+      image: { buffer, width: image.width, height: image.height },
+      mask,
+      options: refineOptions
+    }), [buffer], options)
+  }
+
+  // Resolves to a 0/1 mask at image resolution
+  async segmentFromScribbles(
+    image: globalThis.ImageData,
+    scribbles: Uint8Array,
+    graphCutOptions: GraphCutOptions,
+    options: ScribbleJobOptions = {}
+  ): Promise<Uint8Array> {
+    const buffer = copyBuffer(image.data)
+    const scribbleBuffer = copyBuffer(scribbles)
+    const previousMaskBuffer = options.previousMask ? copyBuffer(options.previousMask) : undefined
+    const result = await this.run<ArrayBuffer>('scribble', id => ({
+      type: 'scribble',
+      id,
+      image: { buffer, width: image.width, height: image.height },
+      scribbles: scribbleBuffer,
+      previousMask: previousMaskBuffer,
+      options: graphCutOptions
+    }), previousMaskBuffer ? [buffer, scribbleBuffer, previousMaskBuffer] : [buffer, scribbleBuffer], options)
+
+    return new Uint8Array(result)
+  }
+
+  private run<T>(
+    kind: WorkerKind,
+    createRequest: (id: number) => WorkerJobRequest,
+    transfer: Transferable[],
+    { signal, onProgress }: JobOptions
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Processing was cancelled', 'AbortError'))
+    }
+
+    const id = this.nextJobId++
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { kind, resolve: resolve as (value: unknown) => void, reject, onProgress })
+
+      signal?.addEventListener('abort', () => {
+        if (this.pending.has(id)) {
+          // A busy worker can't read messages until its pixel loop finishes, so stop it outright
+          this.terminate(kind, new DOMException('Processing was cancelled', 'AbortError'))
+        }
+      }, { once: true })
+
+      this.getWorker(kind).postMessage(createRequest(id), transfer)
+    })
+  }
+
+  private getWorker(kind: WorkerKind): Worker {
+    let worker = this.workers.get(kind)
+    if (!worker) {
+      worker = new Worker(new URL('../workers/processing.worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<WorkerJobResponse>) => this.handleMessage(event.data)
+      worker.onerror = (event) => {
+        this.terminate(kind, new Error(event.message || 'Processing worker failed'))
+      }
+      this.workers.set(kind, worker)
+    }
+    return worker
+  }
+
+  private handleMessage(message: WorkerJobResponse): void {
+    const job = this.pending.get(message.id)
+    if (!job) return
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.progress)
+        break
+      case 'segment-result':
+      case 'recolor-result':
+      case 'refine-result':
+      case 'scribble-result':
+        this.pending.delete(message.id)
+        job.onProgress?.(1)
+        job.resolve(message.result)
+        break
+      case 'error':
+        this.pending.delete(message.id)
+        job.reject(new Error(message.message))
+        break
+    }
+  }
+
+  // Stop a worker and fail every job still queued on it; the next job starts a fresh worker
+  private terminate(kind: WorkerKind, reason: unknown): void {
+    this.workers.get(kind)?.terminate()
+    this.workers.delete(kind)
+
+    for (const [id, job] of this.pending) {
+      if (job.kind === kind) {
+        this.pending.delete(id)
+        job.reject(reason)
+      }
+    }
+  }
+}
+
+export const processingWorker = new ProcessingWorkerClient()
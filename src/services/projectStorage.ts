@@ -0,0 +1,377 @@
+import { AppState, ColorScheme, EditorStep, HistoryItem, ImageData, InstanceRef, Project, Selection, SelectionTool } from '../types'
+import { SegmentationClass, SegmentationResult } from './segmentation/types'
+import { SceneProfileId } from './segmentation/profiles'
+import { LightnessMode, RecolorMode } from './colorProcessor'
+
+// Gallery entry; kept apart from the session so listing projects stays cheap
+export interface ProjectSummary {
+  id: string
+  name: string
+  step: EditorStep
+  thumbnail: string | null // Small JPEG data URL
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Editor state outside the store that reopening a project puts back
+export interface ProjectView {
+  step: EditorStep
+  selectedTool: SelectionTool
+  selectedClass: number
+  activeRegion: string | null
+  // Recolor settings; missing from projects saved before they were kept
+  recolorMode?: RecolorMode
+  lightnessMode?: LightnessMode
+  featherRadius?: number
+  edgeContrast?: number
+}
+
+// Everything about a project beyond its Project record
+export interface ProjectSession {
+  sceneProfile: SceneProfileId
+  classes: SegmentationClass[]
+  segmentation: SegmentationResult | null
+  selectedAreas: number[]
+  selectedInstances: InstanceRef[]
+  colorScheme: ColorScheme
+  historyIndex: number
+  view: ProjectView
+}
+
+interface ImageRecord {
+  id: string
+  blob: Blob // The photo as uploaded
+  width: number
+  height: number
+}
+
+// The session minus its masks and history, which are stored on their own
+// so a save only writes what changed
+interface SessionRecord extends Omit<ProjectSession, 'segmentation'> {
+  id: string
+  selections: Selection[]
+  historyIds: string[] // HistoryItem ids in order
+}
+
+interface MasksRecord {
+  id: string
+  segmentation: SegmentationResult | null
+}
+
+interface HistoryRecord {
+  key: string // `${projectId}/${item.id}`
+  projectId: string
+  item: HistoryItem
+}
+
+const DB_NAME = 'colormyhouse'
+const DB_VERSION = 1
+const THUMBNAIL_SIZE = 320 // Longest side in pixels
+const THUMBNAIL_QUALITY = 0.8
+
+const PROJECTS = 'projects'
+const IMAGES = 'images'
+const SESSIONS = 'sessions'
+const MASKS = 'masks'
+const HISTORY = 'history'
+const ALL_STORES = [PROJECTS, IMAGES, SESSIONS, MASKS, HISTORY]
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Saving the project was aborted'))
+  })
+
+class ProjectStorage {
+  private db: Promise<IDBDatabase> | null = null
+  // What the last save of each project wrote, so the next one can skip it
+  private savedSegmentation = new Map<string, SegmentationResult | null>()
+  private savedHistory = new Map<string, Set<string>>()
+
+  async listProjects(): Promise<ProjectSummary[]> {
+    const db = await this.open()
+    const projects = await requestResult<ProjectSummary[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll())
+    return projects.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  }
+
+  // Store a freshly uploaded photo as a new, empty project
+  async createProject(name: string, image: ImageData, session: ProjectSession): Promise<Project> {
+    const blob = await (await fetch(image.originalUrl)).blob()
+    const thumbnail = await createThumbnail(image.originalUrl)
+    const now = new Date()
+    const project: Project = {
+      id: createProjectId(),
+      name,
+      image,
+      selections: [],
+      history: [],
+      createdAt: now,
+      updatedAt: now
+    }
+
+    const db = await this.open()
+    const transaction = db.transaction(ALL_STORES, 'readwrite')
+    transaction.objectStore(IMAGES).put({ id: project.id, blob, width: image.width, height: image.height } satisfies ImageRecord)
+    this.writeProject(transaction, project, session, { id: project.id, name, step: session.view.step, thumbnail, createdAt: now, updatedAt: now })
+    await transactionDone(transaction)
+    return project
+  }
+
+  // Write the project's current state; masks and history steps are only
+  // written when they changed since the last save
+  async saveProject(project: AppState['project'], session: ProjectSession): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(ALL_STORES, 'readwrite')
+    const summary = await requestResult<ProjectSummary | undefined>(transaction.objectStore(PROJECTS).get(project.id))
+    if (!summary) {
+      transaction.abort()
+      throw new Error('This project no longer exists')
+    }
+
+    // Without a record of the last save, take the steps already stored as saved
+    if (!this.savedHistory.has(project.id)) {
+      const keys = await requestResult(transaction.objectStore(HISTORY).index('projectId').getAllKeys(project.id))
+      this.savedHistory.set(project.id, new Set(keys.map(key => String(key).slice(project.id.length + 1))))
+    }
+
+    this.writeProject(transaction, project, session, {
+      ...summary,
+      name: project.name,
+      step: session.view.step,
+      updatedAt: new Date()
+    })
+    await transactionDone(transaction)
+  }
+
+  async loadProject(id: string): Promise<{ project: Project; session: ProjectSession }> {
+    const db = await this.open()
+    const transaction = db.transaction(ALL_STORES)
+    const [summary, image, sessionRecord, masks, historyRecords] = await Promise.all([
+      requestResult<ProjectSummary | undefined>(transaction.objectStore(PROJECTS).get(id)),
+      requestResult<ImageRecord | undefined>(transaction.objectStore(IMAGES).get(id)),
+      requestResult<SessionRecord | undefined>(transaction.objectStore(SESSIONS).get(id)),
+      requestResult<MasksRecord | undefined>(transaction.objectStore(MASKS).get(id)),
+      requestResult<HistoryRecord[]>(transaction.objectStore(HISTORY).index('projectId').getAll(id))
+    ])
+    if (!summary || !image || !sessionRecord) {
+      throw new Error('This project could not be found')
+    }
+
+    const items = new Map(historyRecords.map(record => [record.item.id, record.item]))
+    const history = sessionRecord.historyIds.flatMap(itemId => items.get(itemId) ?? [])
+    const segmentation = masks?.segmentation ?? null
+    this.savedSegmentation.set(id, segmentation)
+    this.savedHistory.set(id, new Set(items.keys()))
+
+    const url = await readAsDataUrl(image.blob)
+    return {
+      project: {
+        id,
+        name: summary.name,
+        image: { id, url, originalUrl: url, width: image.width, height: image.height },
+        selections: sessionRecord.selections,
+        history,
+        createdAt: summary.createdAt,
+        updatedAt: summary.updatedAt
+      },
+      session: {
+        sceneProfile: sessionRecord.sceneProfile,
+        classes: sessionRecord.classes,
+        segmentation,
+        selectedAreas: sessionRecord.selectedAreas,
+        selectedInstances: sessionRecord.selectedInstances,
+        colorScheme: sessionRecord.colorScheme,
+        historyIndex: Math.min(sessionRecord.historyIndex, history.length), // Missing steps can't be redone
+        view: sessionRecord.view
+      }
+    }
+  }
+
+  async renameProject(id: string, name: string): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(PROJECTS, 'readwrite')
+    const store = transaction.objectStore(PROJECTS)
+    const summary = await requestResult<ProjectSummary | undefined>(store.get(id))
+    if (summary) {
+      store.put({ ...summary, name, updatedAt: new Date() })
+    }
+    await transactionDone(transaction)
+  }
+
+  async duplicateProject(id: string, name: string): Promise<ProjectSummary> {
+    const db = await this.open()
+    const transaction = db.transaction(ALL_STORES, 'readwrite')
+    const [summary, image, session, masks, historyRecords] = await Promise.all([
+      requestResult<ProjectSummary | undefined>(transaction.objectStore(PROJECTS).get(id)),
+      requestResult<ImageRecord | undefined>(transaction.objectStore(IMAGES).get(id)),
+      requestResult<SessionRecord | undefined>(transaction.objectStore(SESSIONS).get(id)),
+      requestResult<MasksRecord | undefined>(transaction.objectStore(MASKS).get(id)),
+      requestResult<HistoryRecord[]>(transaction.objectStore(HISTORY).index('projectId').getAll(id))
+    ])
+    if (!summary || !image || !session) {
+      transaction.abort()
+      throw new Error('This project could not be found')
+    }
+
+    const now = new Date()
+    const copyId = createProjectId()
+    const copy: ProjectSummary = { ...summary, id: copyId, name, createdAt: now, updatedAt: now }
+    transaction.objectStore(PROJECTS).put(copy)
+    transaction.objectStore(IMAGES).put({ ...image, id: copyId })
+    transaction.objectStore(SESSIONS).put({ ...session, id: copyId })
+    transaction.objectStore(MASKS).put({ id: copyId, segmentation: masks?.segmentation ?? null })
+    for (const record of historyRecords) {
+      transaction.objectStore(HISTORY).put({ key: getHistoryKey(copyId, record.item.id), projectId: copyId, item: record.item })
+    }
+    await transactionDone(transaction)
+    return copy
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(ALL_STORES, 'readwrite')
+    for (const store of [PROJECTS, IMAGES, SESSIONS, MASKS]) {
+      transaction.objectStore(store).delete(id)
+    }
+    const historyKeys = await requestResult(transaction.objectStore(HISTORY).index('projectId').getAllKeys(id))
+    for (const key of historyKeys) {
+      transaction.objectStore(HISTORY).delete(key)
+    }
+    await transactionDone(transaction)
+
+    this.savedSegmentation.delete(id)
+    this.savedHistory.delete(id)
+  }
+
+  // Replace the gallery thumbnail, e.g. with the recolored result
+  async saveThumbnail(id: string, image: globalThis.ImageData): Promise<void> {
+    const canvas = document.createElement('canvas')
+    canvas.width = image.width
+    canvas.height = image.height
+    canvas.getContext('2d')!.putImageData(image, 0, 0)
+    const thumbnail = drawThumbnail(canvas, image.width, image.height)
+
+    const db = await this.open()
+    const transaction = db.transaction(PROJECTS, 'readwrite')
+    const store = transaction.objectStore(PROJECTS)
+    const summary = await requestResult<ProjectSummary | undefined>(store.get(id))
+    if (summary) {
+      store.put({ ...summary, thumbnail })
+    }
+    await transactionDone(transaction)
+  }
+
+  private writeProject(
+    transaction: IDBTransaction,
+    project: AppState['project'],
+    session: ProjectSession,
+    summary: ProjectSummary
+  ): void {
+    const { segmentation, ...rest } = session
+    transaction.objectStore(PROJECTS).put(summary)
+    transaction.objectStore(SESSIONS).put({
+      ...rest,
+      id: project.id,
+      selections: project.selections,
+      historyIds: project.history.map(item => item.id)
+    } satisfies SessionRecord)
+
+    // Masks are replaced rather than edited in place, so an unchanged reference means unchanged masks
+    if (!this.savedSegmentation.has(project.id) || this.savedSegmentation.get(project.id) !== segmentation) {
+      transaction.objectStore(MASKS).put({ id: project.id, segmentation } satisfies MasksRecord)
+      this.savedSegmentation.set(project.id, segmentation)
+    }
+
+    const saved = this.savedHistory.get(project.id) ?? new Set<string>()
+    const current = new Set(project.history.map(item => item.id))
+    for (const item of project.history) {
+      if (!saved.has(item.id)) {
+        transaction.objectStore(HISTORY).put({ key: getHistoryKey(project.id, item.id), projectId: project.id, item } satisfies HistoryRecord)
+      }
+    }
+    for (const itemId of saved) {
+      if (!current.has(itemId)) {
+        transaction.objectStore(HISTORY).delete(getHistoryKey(project.id, itemId))
+      }
+    }
+    this.savedHistory.set(project.id, current)
+
+    // A failed save may have written none of this, so write everything next time
+    transaction.addEventListener('abort', () => {
+      this.savedSegmentation.delete(project.id)
+      this.savedHistory.delete(project.id)
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('This browser cannot save projects'))
+          return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          db.createObjectStore(PROJECTS, { keyPath: 'id' })
+          db.createObjectStore(IMAGES, { keyPath: 'id' })
+          db.createObjectStore(SESSIONS, { keyPath: 'id' })
+          db.createObjectStore(MASKS, { keyPath: 'id' })
+          db.createObjectStore(HISTORY, { keyPath: 'key' }).createIndex('projectId', 'projectId')
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // Let a later call try again, e.g. after the user allows storage
+      this.db.catch(() => {
+        this.db = null
+      })
+    }
+    return this.db
+  }
+}
+
+export const projectStorage = new ProjectStorage()
+
+function createProjectId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function getHistoryKey(projectId: string, itemId: string): string {
+  return `${projectId}/${itemId}`
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function createThumbnail(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(drawThumbnail(img, img.width, img.height))
+    img.onerror = () => reject(new Error('Failed to load image'))
+    img.src = url
+  })
+}
+
+function drawThumbnail(source: CanvasImageSource, width: number, height: number): string {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY)
+}
@@ -0,0 +1,94 @@
+import { SegmentationClass } from './types'
+
+// Classes the segmentation backends can produce, in model output order
+export const BUILT_IN_CLASS_NAMES = [
+  'background',
+  'walls',
+  'roof',
+  'windows',
+  'doors',
+  'trim',
+  'landscape',
+  'sky',
+  'ceiling',
+  'cabinets',
+  'floor'
+] as const
+
+export type BuiltInClassName = typeof BUILT_IN_CLASS_NAMES[number]
+
+// User-defined classes get a generated name so they can't clash with built-ins
+export type ClassName = BuiltInClassName | `custom-${string}`
+
+// House segmentation classes based on CLAUDE.md spec
+export const SEGMENTATION_CLASSES: SegmentationClass[] = [
+  { id: 0, name: 'background', color: '#000000', displayName: 'Background' },
+  { id: 1, name: 'walls', color: '#FF6B6B', displayName: 'Walls' },
+  { id: 2, name: 'roof', color: '#4ECDC4', displayName: 'Roof' },
+  { id: 3, name: 'windows', color: '#45B7D1', displayName: 'Windows' },
+  { id: 4, name: 'doors', color: '#96CEB4', displayName: 'Doors' },
+  { id: 5, name: 'trim', color: '#FFEAA7', displayName: 'Trim & Details' },
+  { id: 6, name: 'landscape', color: '#DDA0DD', displayName: 'Landscape' },
+  { id: 7, name: 'sky', color: '#87CEEB', displayName: 'Sky' }
+]
+
+// Interior rooms share ids with the exterior classes they correspond to, so a
+// wall color carries over when switching scenes
+export const INTERIOR_CLASSES: SegmentationClass[] = [
+  { id: 0, name: 'background', color: '#000000', displayName: 'Background' },
+  { id: 1, name: 'walls', color: '#FF6B6B', displayName: 'Walls' },
+  { id: 8, name: 'ceiling', color: '#A29BFE', displayName: 'Ceiling' },
+  { id: 5, name: 'trim', color: '#FFEAA7', displayName: 'Trim & Baseboards' },
+  { id: 9, name: 'cabinets', color: '#E17055', displayName: 'Cabinets' },
+  { id: 4, name: 'doors', color: '#96CEB4', displayName: 'Doors' },
+  { id: 10, name: 'floor', color: '#C8A27C', displayName: 'Floor' },
+  { id: 3, name: 'windows', color: '#45B7D1', displayName: 'Windows' }
+]
+
+// Masks store class ids in a Uint8Array, so custom ids live in 100-255,
+// leaving room for more built-in classes
+export const FIRST_CUSTOM_CLASS_ID = 100
+export const MAX_CLASS_ID = 255
+
+// Offered in the class picker as one-click additions
+export const SUGGESTED_CUSTOM_CLASSES: Pick<SegmentationClass, 'displayName' | 'color'>[] = [
+  { displayName: 'Shutters', color: '#F4A261' },
+  { displayName: 'Garage Door', color: '#8E9AAF' },
+  { displayName: 'Fascia', color: '#E9C46A' },
+  { displayName: 'Porch Ceiling', color: '#A8DADC' },
+  { displayName: 'Fence', color: '#B5838D' },
+  { displayName: 'Gutters', color: '#6D6875' }
+]
+
+export const findClass = (classes: SegmentationClass[], classId: number): SegmentationClass | undefined =>
+  classes.find(c => c.id === classId)
+
+// Build a new user-defined class with the next free id
+export const createCustomClass = (
+  displayName: string,
+  color: string,
+  classes: SegmentationClass[]
+): SegmentationClass => {
+  const name = displayName.trim()
+  if (!name) {
+    throw new Error('A class needs a name')
+  }
+  if (classes.some(c => c.displayName.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`There is already a class called ${name}`)
+  }
+
+  let id = FIRST_CUSTOM_CLASS_ID
+  while (classes.some(c => c.id === id)) id++
+  if (id > MAX_CLASS_ID) {
+    throw new Error('No room for more custom classes')
+  }
+
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return {
+    id,
+    name: `custom-${slug || id}`,
+    color,
+    displayName: name,
+    custom: true
+  }
+}
@@ -0,0 +1,652 @@
+import { getSceneProfile } from './profiles'
+import { SegmentationBackend, SegmentationResult, SegmentOptions } from './types'
+import { labelConnectedComponents, resizeMaskNearest, splitCompositeMask } from '../../utils/maskUtils'
+
+// Longest side of the working image; heuristics are resolution independent
+// and the label map is upsampled to the photo afterwards
+const ANALYSIS_SIZE = 320
+
+const CLASS_IDS = { walls: 1, roof: 2, windows: 3, doors: 4, trim: 5, landscape: 6, sky: 7, ceiling: 8, cabinets: 9, floor: 10 }
+
+// Per-pixel features, all normalized to 0-1
+interface AnalysisImage {
+  width: number
+  height: number
+  r: Float32Array
+  g: Float32Array
+  b: Float32Array
+  luminance: Float32Array
+  saturation: Float32Array
+  gradient: Float32Array // Sobel magnitude
+  horizontalEdges: Float32Array // Vertical derivative, strong along eaves and sills
+}
+
+// Rows covered per column by a surface traced in from the top or bottom edge
+interface ColumnTrace {
+  extent: Int32Array
+  score: number // Summed color agreement of the traced pixels
+}
+
+const clampConfidence = (value: number) => Math.min(0.95, Math.max(0.3, value))
+
+// Deterministic segmenter built on image content alone: no weights, no network
+class ClassicalSegmentationBackend implements SegmentationBackend {
+  readonly id = 'classical' as const
+  readonly displayName = 'Classic Vision'
+  readonly description = 'Color and edge analysis that works offline without a model'
+  readonly capabilities = {
+    requiresWeights: false,
+    requiresNetwork: false,
+    followsImageContent: true,
+    sceneProfiles: ['exterior' as const, 'interior' as const]
+  }
+
+  async initialize(): Promise<void> {}
+
+  async segment(image: globalThis.ImageData, options: SegmentOptions = {}): Promise<SegmentationResult> {
+    const analysis = this.createAnalysisImage(image)
+    const { width, height } = analysis
+    const labels = new Uint8Array(width * height)
+    const confidences: { [key: number]: number } = {}
+    options.onProgress?.(0.15)
+
+    if (options.profile === 'interior') {
+      this.segmentInterior(analysis, labels, confidences, options.onProgress)
+    } else {
+      this.segmentExterior(analysis, labels, confidences, options.onProgress)
+    }
+
+    const { classes } = getSceneProfile(options.profile)
+    const compositeMask = resizeMaskNearest(labels, width, height, image.width, image.height)
+    const masks = splitCompositeMask(
+      compositeMask,
+      image.width,
+      image.height,
+      classes,
+      classId => confidences[classId] ?? 0.5,
+      0.002
+    )
+
+    return {
+      masks,
+      classes,
+      backend: this.id
+    }
+  }
+
+  dispose(): void {}
+
+  // Sky from the top, greenery, then the house split into roof and walls
+  private segmentExterior(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    confidences: { [key: number]: number },
+    onProgress?: (progress: number) => void
+  ): void {
+    const skyBottom = this.detectSky(analysis, labels, confidences)
+    onProgress?.(0.35)
+
+    this.detectLandscape(analysis, labels, confidences)
+    onProgress?.(0.5)
+
+    const wallBottom = this.splitRoofAndWalls(analysis, labels, skyBottom, confidences)
+    onProgress?.(0.7)
+
+    this.detectOpenings(analysis, labels, wallBottom, confidences)
+    onProgress?.(0.85)
+  }
+
+  // Ceiling from the top, floor from the bottom, walls in between, then the
+  // baseboards and the doors, windows and cabinets set into the walls
+  private segmentInterior(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    confidences: { [key: number]: number },
+    onProgress?: (progress: number) => void
+  ): void {
+    const { ceilingBottom, floorTop } = this.detectCeilingAndFloor(analysis, labels, confidences)
+    onProgress?.(0.4)
+
+    this.fillWalls(analysis, labels, confidences)
+    onProgress?.(0.55)
+
+    this.detectTrim(analysis, labels, ceilingBottom, floorTop, confidences)
+    onProgress?.(0.7)
+
+    this.detectInteriorOpenings(analysis, labels, floorTop, confidences)
+    onProgress?.(0.85)
+  }
+
+  // Box-filter downsample, then derive color and edge features
+  private createAnalysisImage(image: globalThis.ImageData): AnalysisImage {
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.width, image.height))
+    const width = Math.max(1, Math.round(image.width * scale))
+    const height = Math.max(1, Math.round(image.height * scale))
+    const size = width * height
+
+    const r = new Float32Array(size)
+    const g = new Float32Array(size)
+    const b = new Float32Array(size)
+    const luminance = new Float32Array(size)
+    const saturation = new Float32Array(size)
+
+    for (let y = 0; y < height; y++) {
+      const sy0 = Math.floor(y * image.height / height)
+      const sy1 = Math.max(sy0 + 1, Math.floor((y + 1) * image.height / height))
+      for (let x = 0; x < width; x++) {
+        const sx0 = Math.floor(x * image.width / width)
+        const sx1 = Math.max(sx0 + 1, Math.floor((x + 1) * image.width / width))
+
+        let sumR = 0, sumG = 0, sumB = 0, count = 0
+        for (let sy = sy0; sy < sy1; sy++) {
+          for (let sx = sx0; sx < sx1; sx++) {
+            const p = (sy * image.width + sx) * 4
+            sumR += image.data[p]
+            sumG += image.data[p + 1]
+            sumB += image.data[p + 2]
+            count++
+          }
+        }
+
+        const i = y * width + x
+        r[i] = sumR / count / 255
+        g[i] = sumG / count / 255
+        b[i] = sumB / count / 255
+        luminance[i] = 0.299 * r[i] + 0.587 * g[i] + 0.114 * b[i]
+        const max = Math.max(r[i], g[i], b[i])
+        const min = Math.min(r[i], g[i], b[i])
+        saturation[i] = max > 0 ? (max - min) / max : 0
+      }
+    }
+
+    const gradient = new Float32Array(size)
+    const horizontalEdges = new Float32Array(size)
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        const i = y * width + x
+        const gx =
+          luminance[i - width + 1] + 2 * luminance[i + 1] + luminance[i + width + 1] -
+          luminance[i - width - 1] - 2 * luminance[i - 1] - luminance[i + width - 1]
+        const gy =
+          luminance[i + width - 1] + 2 * luminance[i + width] + luminance[i + width + 1] -
+          luminance[i - width - 1] - 2 * luminance[i - width] - luminance[i - width + 1]
+        gradient[i] = Math.sqrt(gx * gx + gy * gy) / 4
+        horizontalEdges[i] = Math.abs(gy) / 4
+      }
+    }
+
+    return { width, height, r, g, b, luminance, saturation, gradient, horizontalEdges }
+  }
+
+  // Clear sky is bright and blue-dominant, overcast sky is bright and grey
+  private isSkyLike(analysis: AnalysisImage, i: number): boolean {
+    const { r, g, b, luminance, saturation } = analysis
+    const blueSky = b[i] > r[i] && b[i] >= g[i] * 0.95 && luminance[i] > 0.4
+    const overcast = luminance[i] > 0.7 && saturation[i] < 0.15
+    return blueSky || overcast
+  }
+
+  // Walk each column in from the top or bottom edge while the color follows
+  // the surface's gradient and no strong edge interrupts it
+  private traceColumns(
+    analysis: AnalysisImage,
+    direction: 'down' | 'up',
+    isCandidate: (i: number) => boolean,
+    maxGradient: number,
+    maxDistance: number
+  ): ColumnTrace {
+    const { width, height, r, g, b, gradient } = analysis
+    const extent = new Int32Array(width)
+    const rowAt = (step: number) => (direction === 'down' ? step : height - 1 - step)
+    let score = 0
+
+    for (let x = 0; x < width; x++) {
+      const start = rowAt(0) * width + x
+      if (!isCandidate(start)) continue
+
+      // Running color lets the scan follow gradual shading, e.g. toward the horizon
+      let meanR = r[start], meanG = g[start], meanB = b[start]
+      let step = 0
+      while (step < height) {
+        const i = rowAt(step) * width + x
+        const distance = Math.abs(r[i] - meanR) + Math.abs(g[i] - meanG) + Math.abs(b[i] - meanB)
+        if (gradient[i] > maxGradient || distance > maxDistance || !isCandidate(i)) break
+
+        meanR = meanR * 0.8 + r[i] * 0.2
+        meanG = meanG * 0.8 + g[i] * 0.2
+        meanB = meanB * 0.8 + b[i] * 0.2
+        score += 1 - distance / maxDistance
+        step++
+      }
+      extent[x] = step
+    }
+
+    // Median filter across columns removes spikes from antennas, wires, branches and lamps
+    const smoothed = new Int32Array(width)
+    const neighbours: number[] = []
+    for (let x = 0; x < width; x++) {
+      neighbours.length = 0
+      for (let dx = -3; dx <= 3; dx++) {
+        neighbours.push(extent[Math.min(width - 1, Math.max(0, x + dx))])
+      }
+      neighbours.sort((a, c) => a - c)
+      smoothed[x] = neighbours[3]
+    }
+
+    return { extent: smoothed, score }
+  }
+
+  // Sky is traced down from the top edge while it keeps the sky's brightness/blue gradient
+  private detectSky(analysis: AnalysisImage, labels: Uint8Array, confidences: { [key: number]: number }): Int32Array {
+    const { width } = analysis
+    const { extent: smoothed, score: skyScore } = this.traceColumns(
+      analysis,
+      'down',
+      i => this.isSkyLike(analysis, i),
+      0.08,
+      0.18
+    )
+    let skyPixels = 0
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < smoothed[x]; y++) {
+        labels[y * width + x] = CLASS_IDS.sky
+        skyPixels++
+      }
+    }
+
+    confidences[CLASS_IDS.sky] = clampConfidence(skyPixels > 0 ? 0.6 + 0.35 * skyScore / skyPixels : 0)
+    return smoothed
+  }
+
+  // Lawns, shrubs and trees share a strong green excess over red and blue
+  private detectLandscape(analysis: AnalysisImage, labels: Uint8Array, confidences: { [key: number]: number }): void {
+    const { width, height, r, g, b, saturation } = analysis
+    const green = new Uint8Array(width * height)
+    let totalScore = 0
+    let greenPixels = 0
+
+    for (let i = 0; i < green.length; i++) {
+      if (labels[i] !== 0) continue
+      const sum = r[i] + g[i] + b[i] + 1e-6
+      const excessGreen = (2 * g[i] - r[i] - b[i]) / sum
+      if (excessGreen > 0.1 && saturation[i] > 0.15) {
+        green[i] = 1
+        totalScore += Math.min(1, excessGreen / 0.4)
+        greenPixels++
+      }
+    }
+
+    // Ignore isolated specks, e.g. a green mailbox or a few moss pixels
+    const minArea = width * height * 0.002
+    const { labels: componentLabels, components } = labelConnectedComponents(green, width, height)
+    const keep = new Uint8Array(components.length + 1)
+    components.forEach(component => {
+      keep[component.label] = component.area >= minArea ? 1 : 0
+    })
+
+    for (let i = 0; i < green.length; i++) {
+      if (keep[componentLabels[i]]) {
+        labels[i] = CLASS_IDS.landscape
+      }
+    }
+
+    confidences[CLASS_IDS.landscape] = clampConfidence(greenPixels > 0 ? 0.55 + 0.4 * totalScore / greenPixels : 0)
+  }
+
+  // Everything between sky and ground is the house; the strongest horizontal
+  // edge in its upper part is taken as the eave line separating roof from walls.
+  // Returns the lowest wall row, used to recognise doors.
+  private splitRoofAndWalls(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    skyBottom: Int32Array,
+    confidences: { [key: number]: number }
+  ): number {
+    const { width, height, horizontalEdges, luminance } = analysis
+
+    const sortedSky = Array.from(skyBottom).sort((a, c) => a - c)
+    const structureTop = sortedSky[Math.floor(width * 0.1)]
+
+    // Ground line: lowest row that still has a meaningful amount of structure
+    let structureBottom = height
+    for (let y = height - 1; y > structureTop; y--) {
+      let structurePixels = 0
+      for (let x = 0; x < width; x++) {
+        if (labels[y * width + x] === 0) structurePixels++
+      }
+      if (structurePixels > width * 0.2) {
+        structureBottom = y + 1
+        break
+      }
+    }
+
+    const structureHeight = structureBottom - structureTop
+    const rowEdges = new Float64Array(height)
+    for (let y = structureTop; y < structureBottom; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x
+        if (labels[i] === 0) rowEdges[y] += horizontalEdges[i]
+      }
+    }
+
+    let eaveRow = -1
+    let eaveStrength = 0
+    let meanRowEdge = 0
+    for (let y = structureTop; y < structureBottom; y++) {
+      meanRowEdge += rowEdges[y] / Math.max(1, structureHeight)
+    }
+
+    const searchStart = Math.max(1, structureTop + Math.floor(structureHeight * 0.1))
+    const searchEnd = Math.min(height - 1, structureTop + Math.floor(structureHeight * 0.6))
+    for (let y = searchStart; y < searchEnd; y++) {
+      const smoothed = (rowEdges[y - 1] + rowEdges[y] + rowEdges[y + 1]) / 3
+      if (smoothed > eaveStrength) {
+        eaveStrength = smoothed
+        eaveRow = y
+      }
+    }
+
+    // Without a clear eave (close-ups, flat roofs) everything is wall
+    const edgeRatio = meanRowEdge > 0 ? eaveStrength / meanRowEdge : 0
+    if (edgeRatio < 1.5) {
+      eaveRow = structureTop
+    }
+
+    let wallSum = 0, wallSumSquares = 0, wallPixels = 0
+    for (let y = structureTop; y < structureBottom; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x
+        if (labels[i] !== 0) continue
+        if (y < eaveRow) {
+          labels[i] = CLASS_IDS.roof
+        } else {
+          labels[i] = CLASS_IDS.walls
+          wallSum += luminance[i]
+          wallSumSquares += luminance[i] * luminance[i]
+          wallPixels++
+        }
+      }
+    }
+
+    confidences[CLASS_IDS.roof] = clampConfidence(0.4 + 0.15 * edgeRatio)
+    if (wallPixels > 0) {
+      const mean = wallSum / wallPixels
+      const deviation = Math.sqrt(Math.max(0, wallSumSquares / wallPixels - mean * mean))
+      confidences[CLASS_IDS.walls] = clampConfidence(0.95 - deviation * 2)
+    }
+
+    return structureBottom - 1
+  }
+
+  // Windows and doors read as dark, nearly rectangular blobs inside the walls;
+  // the ones standing on the ground line and taller than wide are doors
+  private detectOpenings(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    wallBottom: number,
+    confidences: { [key: number]: number }
+  ): void {
+    const { width, height, luminance } = analysis
+
+    let sum = 0, sumSquares = 0, count = 0
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] === CLASS_IDS.walls) {
+        sum += luminance[i]
+        sumSquares += luminance[i] * luminance[i]
+        count++
+      }
+    }
+    if (count === 0) return
+
+    const mean = sum / count
+    const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean))
+    const threshold = Math.min(mean - 0.8 * deviation, mean * 0.75)
+
+    const dark = new Uint8Array(width * height)
+    for (let i = 0; i < dark.length; i++) {
+      if (labels[i] === CLASS_IDS.walls && luminance[i] < threshold) dark[i] = 1
+    }
+
+    const { components } = labelConnectedComponents(dark, width, height)
+    const minArea = width * height * 0.001
+    const fillRatios: { [key: number]: number[] } = { [CLASS_IDS.windows]: [], [CLASS_IDS.doors]: [] }
+
+    for (const component of components) {
+      const boxWidth = component.maxX - component.minX + 1
+      const boxHeight = component.maxY - component.minY + 1
+      const fillRatio = component.area / (boxWidth * boxHeight)
+
+      if (component.area < minArea || fillRatio < 0.55) continue
+      if (boxWidth < 3 || boxHeight < 3 || boxWidth > width * 0.6) continue
+
+      const touchesGround = component.maxY >= wallBottom - height * 0.05
+      const classId = touchesGround && boxHeight / boxWidth > 1.4 ? CLASS_IDS.doors : CLASS_IDS.windows
+      fillRatios[classId].push(fillRatio)
+
+      // Openings are rectangular, so fill the whole box to include frames and reflections
+      for (let y = component.minY; y <= component.maxY; y++) {
+        for (let x = component.minX; x <= component.maxX; x++) {
+          const i = y * width + x
+          if (labels[i] === CLASS_IDS.walls) labels[i] = classId
+        }
+      }
+    }
+
+    for (const classId of [CLASS_IDS.windows, CLASS_IDS.doors]) {
+      const ratios = fillRatios[classId]
+      if (ratios.length > 0) {
+        confidences[classId] = clampConfidence(ratios.reduce((a, c) => a + c, 0) / ratios.length)
+      }
+    }
+  }
+  // Ceilings are bright, flat and hang from the top edge. Floors rise from the
+  // bottom edge and may be wood or tile, so they're traced with looser limits.
+  // Each is capped at half the frame so neither can swallow the walls.
+  private detectCeilingAndFloor(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    confidences: { [key: number]: number }
+  ): { ceilingBottom: Int32Array; floorTop: Int32Array } {
+    const { width, height, luminance, saturation } = analysis
+    const maxExtent = Math.floor(height / 2)
+
+    const ceiling = this.traceColumns(
+      analysis,
+      'down',
+      i => luminance[i] > 0.45 && saturation[i] < 0.3,
+      0.08,
+      0.15
+    )
+    const floor = this.traceColumns(analysis, 'up', () => true, 0.15, 0.25)
+
+    const ceilingBottom = new Int32Array(width)
+    const floorTop = new Int32Array(width)
+    let ceilingPixels = 0
+    let floorPixels = 0
+
+    for (let x = 0; x < width; x++) {
+      ceilingBottom[x] = Math.min(ceiling.extent[x], maxExtent)
+      floorTop[x] = height - Math.min(floor.extent[x], maxExtent)
+
+      for (let y = 0; y < ceilingBottom[x]; y++) {
+        labels[y * width + x] = CLASS_IDS.ceiling
+        ceilingPixels++
+      }
+      for (let y = floorTop[x]; y < height; y++) {
+        labels[y * width + x] = CLASS_IDS.floor
+        floorPixels++
+      }
+    }
+
+    confidences[CLASS_IDS.ceiling] = clampConfidence(ceilingPixels > 0 ? 0.55 + 0.4 * ceiling.score / ceilingPixels : 0)
+    confidences[CLASS_IDS.floor] = clampConfidence(floorPixels > 0 ? 0.5 + 0.4 * floor.score / floorPixels : 0)
+    return { ceilingBottom, floorTop }
+  }
+
+  // Whatever the ceiling and floor left is wall
+  private fillWalls(analysis: AnalysisImage, labels: Uint8Array, confidences: { [key: number]: number }): void {
+    const { luminance } = analysis
+    let wallSum = 0, wallSumSquares = 0, wallPixels = 0
+
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] !== 0) continue
+      labels[i] = CLASS_IDS.walls
+      wallSum += luminance[i]
+      wallSumSquares += luminance[i] * luminance[i]
+      wallPixels++
+    }
+
+    if (wallPixels > 0) {
+      const mean = wallSum / wallPixels
+      const deviation = Math.sqrt(Math.max(0, wallSumSquares / wallPixels - mean * mean))
+      confidences[CLASS_IDS.walls] = clampConfidence(0.95 - deviation * 2)
+    }
+  }
+
+  // Baseboards sit just above the floor line and crown molding just below the
+  // ceiling line. Both are traced one row at a time (following the line, which
+  // needn't be level) for as long as most of the row differs from the wall paint
+  // in the same direction; pixels going the other way, like the foot of a dark
+  // door, stay wall.
+  private detectTrim(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    ceilingBottom: Int32Array,
+    floorTop: Int32Array,
+    confidences: { [key: number]: number }
+  ): void {
+    const { width, height, luminance } = analysis
+    const { mean, deviation } = this.getWallStatistics(analysis, labels)
+    const maxBand = Math.max(2, Math.round(height * 0.08))
+    const threshold = Math.max(0.06, deviation * 0.75)
+    let bandRows = 0
+    let trimRows = 0
+
+    const traceBand = (rowAt: (x: number, offset: number) => number) => {
+      for (let offset = 0; offset < maxBand; offset++) {
+        let wallPixels = 0, brighter = 0, darker = 0
+        for (let x = 0; x < width; x++) {
+          const y = rowAt(x, offset)
+          if (y < 0 || y >= height || labels[y * width + x] !== CLASS_IDS.walls) continue
+          wallPixels++
+          const difference = luminance[y * width + x] - mean
+          if (difference > threshold) brighter++
+          else if (difference < -threshold) darker++
+        }
+
+        bandRows++
+        const sign = brighter >= darker ? 1 : -1
+        if (wallPixels === 0 || Math.max(brighter, darker) < wallPixels * 0.5) return
+        trimRows++
+
+        for (let x = 0; x < width; x++) {
+          const y = rowAt(x, offset)
+          if (y < 0 || y >= height) continue
+          const i = y * width + x
+          if (labels[i] === CLASS_IDS.walls && (luminance[i] - mean) * sign > threshold) {
+            labels[i] = CLASS_IDS.trim
+          }
+        }
+      }
+    }
+
+    // Columns without a floor or ceiling map off-image and are skipped
+    traceBand((x, offset) => (floorTop[x] < height ? floorTop[x] - 1 - offset : -1))
+    traceBand((x, offset) => (ceilingBottom[x] > 0 ? ceilingBottom[x] + offset : -1))
+
+    if (trimRows > 0) {
+      confidences[CLASS_IDS.trim] = clampConfidence(0.4 + 0.5 * trimRows / bandRows)
+    }
+  }
+
+  // Rectangular blobs that stand out from the wall paint: bright ones are
+  // windows (daylight), tall ones on the floor line are doors, and the rest
+  // are base or wall cabinets
+  private detectInteriorOpenings(
+    analysis: AnalysisImage,
+    labels: Uint8Array,
+    floorTop: Int32Array,
+    confidences: { [key: number]: number }
+  ): void {
+    const { width, height, luminance } = analysis
+    const { mean, deviation, count } = this.getWallStatistics(analysis, labels)
+    if (count === 0) return
+
+    const threshold = Math.max(0.12, deviation * 1.2)
+    const distinct = new Uint8Array(width * height)
+    for (let i = 0; i < distinct.length; i++) {
+      if (labels[i] === CLASS_IDS.walls && Math.abs(luminance[i] - mean) > threshold) distinct[i] = 1
+    }
+
+    const { labels: componentLabels, components } = labelConnectedComponents(distinct, width, height)
+    const luminanceSums = new Float64Array(components.length + 1)
+    for (let i = 0; i < componentLabels.length; i++) {
+      luminanceSums[componentLabels[i]] += luminance[i]
+    }
+
+    const minArea = width * height * 0.002
+    const fillRatios: { [key: number]: number[] } = {
+      [CLASS_IDS.windows]: [],
+      [CLASS_IDS.doors]: [],
+      [CLASS_IDS.cabinets]: []
+    }
+
+    for (const component of components) {
+      const boxWidth = component.maxX - component.minX + 1
+      const boxHeight = component.maxY - component.minY + 1
+      const fillRatio = component.area / (boxWidth * boxHeight)
+
+      if (component.area < minArea || fillRatio < 0.5) continue
+      if (boxWidth < 3 || boxHeight < 3 || boxWidth > width * 0.7) continue
+
+      const centerX = Math.floor((component.minX + component.maxX) / 2)
+      const touchesFloor = component.maxY >= floorTop[centerX] - height * 0.05
+      const isBright = luminanceSums[component.label] / component.area > mean
+
+      let classId = CLASS_IDS.cabinets
+      if (isBright && !touchesFloor) {
+        classId = CLASS_IDS.windows
+      } else if (touchesFloor && boxHeight / boxWidth > 1.6) {
+        classId = CLASS_IDS.doors
+      }
+      fillRatios[classId].push(fillRatio)
+
+      // Fill the whole box so panels, handles and glazing bars are included
+      for (let y = component.minY; y <= component.maxY; y++) {
+        for (let x = component.minX; x <= component.maxX; x++) {
+          const i = y * width + x
+          if (labels[i] === CLASS_IDS.walls) labels[i] = classId
+        }
+      }
+    }
+
+    for (const classId of [CLASS_IDS.windows, CLASS_IDS.doors, CLASS_IDS.cabinets]) {
+      const ratios = fillRatios[classId]
+      if (ratios.length > 0) {
+        confidences[classId] = clampConfidence(ratios.reduce((a, c) => a + c, 0) / ratios.length)
+      }
+    }
+  }
+
+  private getWallStatistics(
+    analysis: AnalysisImage,
+    labels: Uint8Array
+  ): { mean: number; deviation: number; count: number } {
+    const { luminance } = analysis
+    let sum = 0, sumSquares = 0, count = 0
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] === CLASS_IDS.walls) {
+        sum += luminance[i]
+        sumSquares += luminance[i] * luminance[i]
+        count++
+      }
+    }
+
+    const mean = count > 0 ? sum / count : 0
+    const deviation = count > 0 ? Math.sqrt(Math.max(0, sumSquares / count - mean * mean)) : 0
+    return { mean, deviation, count }
+  }
+}
+
+export const classicalBackend = new ClassicalSegmentationBackend()
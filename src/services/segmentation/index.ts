@@ -0,0 +1,142 @@
+import { DEFAULT_SCENE_PROFILE, getSceneProfile } from './profiles'
+import { classicalBackend } from './classicalBackend'
+import { mockBackend } from './mockBackend'
+import { remoteBackend } from './remoteBackend'
+import { tfjsBackend } from './tfjsBackend'
+import {
+  SegmentationBackend,
+  SegmentationBackendId,
+  SegmentationResult,
+  SegmentOptions
+} from './types'
+
+export * from './types'
+export {
+  BUILT_IN_CLASS_NAMES,
+  SEGMENTATION_CLASSES,
+  SUGGESTED_CUSTOM_CLASSES,
+  createCustomClass,
+  findClass
+} from './classes'
+export type { BuiltInClassName, ClassName } from './classes'
+export { DEFAULT_SCENE_PROFILE, SCENE_PROFILES, getSceneProfile } from './profiles'
+export type { SceneProfile, SceneProfileId } from './profiles'
+export { SEGMENTATION_MODEL_URL } from './tfjsBackend'
+
+const backends = new Map<SegmentationBackendId, SegmentationBackend>()
+
+export const registerBackend = (backend: SegmentationBackend): void => {
+  backends.set(backend.id, backend)
+}
+
+export const getBackend = (id: SegmentationBackendId): SegmentationBackend | undefined => backends.get(id)
+
+export const listBackends = (): SegmentationBackend[] => Array.from(backends.values())
+
+registerBackend(tfjsBackend)
+registerBackend(classicalBackend)
+registerBackend(remoteBackend)
+registerBackend(mockBackend)
+
+// Configured with VITE_SEGMENTATION_BACKEND, defaults to the local model
+export const DEFAULT_SEGMENTATION_BACKEND: SegmentationBackendId =
+  backends.has(import.meta.env.VITE_SEGMENTATION_BACKEND as SegmentationBackendId)
+    ? import.meta.env.VITE_SEGMENTATION_BACKEND as SegmentationBackendId
+    : 'tfjs'
+
+class SegmentationService {
+  // Backends that failed to initialize, so we don't retry them on every run
+  private unavailable = new Set<SegmentationBackendId>()
+  // Offline backend used when the requested one can't start, null to fail instead
+  private fallbackBackend: SegmentationBackendId | null = 'classical'
+
+  setFallbackBackend(backendId: SegmentationBackendId | null): void {
+    this.fallbackBackend = backendId
+  }
+
+  async initialize(backendId: SegmentationBackendId = DEFAULT_SEGMENTATION_BACKEND): Promise<SegmentationBackend> {
+    const backend = backends.get(backendId)
+    if (!backend) {
+      throw new Error(`Unknown segmentation backend: ${backendId}`)
+    }
+
+    const fallback = this.fallbackBackend ? backends.get(this.fallbackBackend) : undefined
+
+    if (!this.unavailable.has(backendId)) {
+      try {
+        await backend.initialize()
+        return backend
+      } catch (error) {
+        this.unavailable.add(backendId)
+        if (!fallback || fallback === backend) {
+          console.error(`Failed to initialize ${backendId} segmentation backend:`, error)
+          throw error
+        }
+        console.warn(`${backend.displayName} unavailable, falling back to ${fallback.displayName}:`, error)
+      }
+    } else if (!fallback || fallback === backend) {
+      throw new Error(`${backend.displayName} is unavailable`)
+    }
+
+    await fallback.initialize()
+    return fallback
+  }
+
+  async segmentImage(
+    imageElement: HTMLImageElement,
+    backendId: SegmentationBackendId = DEFAULT_SEGMENTATION_BACKEND,
+    options?: SegmentOptions
+  ): Promise<SegmentationResult> {
+    return this.segmentImageData(this.getImageData(imageElement), backendId, options)
+  }
+
+  // DOM-free entry point, used directly by the processing worker
+  async segmentImageData(
+    image: globalThis.ImageData,
+    backendId: SegmentationBackendId = DEFAULT_SEGMENTATION_BACKEND,
+    options?: SegmentOptions
+  ): Promise<SegmentationResult> {
+    const profile = options?.profile ?? DEFAULT_SCENE_PROFILE
+    let backend = await this.initialize(backendId)
+
+    // Backends trained on one kind of scene hand other scenes to the fallback
+    if (!backend.capabilities.sceneProfiles.includes(profile)) {
+      const fallback = this.fallbackBackend ? backends.get(this.fallbackBackend) : undefined
+      const sceneName = getSceneProfile(profile).displayName
+      if (!fallback || !fallback.capabilities.sceneProfiles.includes(profile)) {
+        throw new Error(`${backend.displayName} doesn't support ${sceneName} photos`)
+      }
+      console.warn(`${backend.displayName} doesn't support ${sceneName} photos, using ${fallback.displayName}`)
+      await fallback.initialize()
+      backend = fallback
+    }
+
+    try {
+      const result = await backend.segment(image, options)
+      return { ...result, backend: backend.id }
+    } catch (error) {
+      console.error('Segmentation failed:', error)
+      throw error
+    }
+  }
+
+  // Release model memory, e.g. when the user switches away from a backend
+  disposeBackend(backendId: SegmentationBackendId): void {
+    backends.get(backendId)?.dispose()
+    this.unavailable.delete(backendId)
+  }
+
+  // Backends work on raw pixels at the image's natural resolution
+  getImageData(imageElement: HTMLImageElement): globalThis.ImageData {
+    const width = imageElement.naturalWidth || imageElement.width
+    const height = imageElement.naturalHeight || imageElement.height
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')!
+    ctx.drawImage(imageElement, 0, 0, width, height)
+    return ctx.getImageData(0, 0, width, height)
+  }
+}
+
+export const segmentationService = new SegmentationService()
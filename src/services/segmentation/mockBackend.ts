@@ -1,77 +1,35 @@
-// import * as tf from '@tensorflow/tfjs' // TODO: Will be used for actual TensorFlow model loading
-
-export interface SegmentationMask {
-  data: Uint8Array
-  width: number
-  height: number
-  classId: number
-  className: string
-  confidence: number
-}
-
-export interface SegmentationResult {
-  masks: SegmentationMask[]
-  classes: SegmentationClass[]
-}
-
-export interface SegmentationClass {
-  id: number
-  name: string
-  color: string
-  displayName: string
-}
-
-// House segmentation classes based on CLAUDE.md spec
-export const SEGMENTATION_CLASSES: SegmentationClass[] = [
-  { id: 0, name: 'background', color: '#000000', displayName: 'Background' },
-  { id: 1, name: 'walls', color: '#FF6B6B', displayName: 'Walls' },
-  { id: 2, name: 'roof', color: '#4ECDC4', displayName: 'Roof' },
-  { id: 3, name: 'windows', color: '#45B7D1', displayName: 'Windows' },
-  { id: 4, name: 'doors', color: '#96CEB4', displayName: 'Doors' },
-  { id: 5, name: 'trim', color: '#FFEAA7', displayName: 'Trim & Details' },
-  { id: 6, name: 'landscape', color: '#DDA0DD', displayName: 'Landscape' },
-  { id: 7, name: 'sky', color: '#87CEEB', displayName: 'Sky' }
-]
-
-class SegmentationService {
-  private isModelLoaded = false
-
-  async initialize(): Promise<void> {
-    try {
-      // For now, we'll simulate model loading
-      // In production, this would load the actual U-Net model
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      this.isModelLoaded = true
-      console.log('Segmentation model initialized (mock)')
-    } catch (error) {
-      console.error('Failed to initialize segmentation model:', error)
-      throw error
-    }
+import { INTERIOR_CLASSES, SEGMENTATION_CLASSES } from './classes'
+import { SegmentationBackend, SegmentationResult, SegmentOptions } from './types'
+import { splitCompositeMask } from '../../utils/maskUtils'
+
+// Geometric placeholder that draws a typical house (or room) layout regardless of the photo
+class MockSegmentationBackend implements SegmentationBackend {
+  readonly id = 'mock' as const
+  readonly displayName = 'Demo Layout'
+  readonly description = 'Placeholder house shapes, works without a model or server'
+  readonly capabilities = {
+    requiresWeights: false,
+    requiresNetwork: false,
+    followsImageContent: false,
+    sceneProfiles: ['exterior' as const, 'interior' as const]
   }
 
-  async segmentImage(imageElement: HTMLImageElement): Promise<SegmentationResult> {
-    if (!this.isModelLoaded) {
-      await this.initialize()
-    }
+  async initialize(): Promise<void> {}
 
-    try {
-      // Use improved mock segmentation that creates realistic house shapes
-      const result = await this.createIntelligentMockSegmentation(imageElement.width, imageElement.height)
-      
-      return result
-    } catch (error) {
-      console.error('Segmentation failed:', error)
-      throw error
-    }
+  async segment(image: globalThis.ImageData, options: SegmentOptions = {}): Promise<SegmentationResult> {
+    return options.profile === 'interior'
+      ? this.createInteriorMockSegmentation(image.width, image.height, options.onProgress)
+      : this.createIntelligentMockSegmentation(image.width, image.height, options.onProgress)
   }
 
-
-
+  dispose(): void {}
 
   // Improved mock segmentation that creates realistic house shapes
-  private async createIntelligentMockSegmentation(width: number, height: number): Promise<SegmentationResult> {
-    const masks: SegmentationMask[] = []
-    
+  private async createIntelligentMockSegmentation(
+    width: number,
+    height: number,
+    onProgress?: (progress: number) => void
+  ): Promise<SegmentationResult> {
     // Create a single composite mask for all objects
     const compositeMask = new Uint8Array(width * height)
     
@@ -80,9 +38,11 @@ class SegmentationService {
     
     // Roof - intelligent triangular/trapezoidal shape
     this.createRealisticRoofMask(compositeMask, width, height, 2)
+    onProgress?.(0.2)
     
     // Walls - main house facade with proper proportions
     this.createRealisticWallsMask(compositeMask, width, height, 1)
+    onProgress?.(0.4)
     
     // Windows - well-proportioned rectangular windows
     this.createRealisticWindowMask(compositeMask, width, height, 3, 0.2, 0.45, 0.12, 0.15) // Left window
@@ -93,9 +53,8 @@ class SegmentationService {
     
     // Landscape - natural ground area
     this.createRealisticLandscapeMask(compositeMask, width, height, 6)
+    onProgress?.(0.6)
     
-    // Create individual masks for each class with high confidence
-    const classIds = [1, 2, 3, 4, 6, 7] // All classes except background
     const confidences: { [key: number]: number } = { 
       1: 0.95, // Walls - high confidence
       2: 0.92, // Roof - high confidence  
@@ -105,34 +64,70 @@ class SegmentationService {
       7: 0.96  // Sky - very high confidence
     }
     
-    for (const classId of classIds) {
-      const mask = new Uint8Array(width * height)
-      let pixelCount = 0
-      
-      for (let i = 0; i < compositeMask.length; i++) {
-        if (compositeMask[i] === classId) {
-          mask[i] = classId
-          pixelCount++
-        }
-      }
-      
-      // Only include masks that have reasonable coverage
-      if (pixelCount > width * height * 0.01) { // At least 1% coverage
-        const segClass = SEGMENTATION_CLASSES.find(c => c.id === classId)!
-        masks.push({
-          data: mask,
-          width,
-          height,
-          classId,
-          className: segClass.name,
-          confidence: confidences[classId] || 0.85
-        })
-      }
+    // Only include masks that have reasonable coverage (at least 1%)
+    const masks = splitCompositeMask(
+      compositeMask,
+      width,
+      height,
+      SEGMENTATION_CLASSES,
+      classId => confidences[classId] || 0.85,
+      0.01
+    )
+
+    return {
+      masks,
+      classes: SEGMENTATION_CLASSES,
+      backend: this.id
     }
+  }
+
+  // A room seen straight on: ceiling, walls with a baseboard, a door, a window,
+  // a run of base cabinets and the floor
+  private async createInteriorMockSegmentation(
+    width: number,
+    height: number,
+    onProgress?: (progress: number) => void
+  ): Promise<SegmentationResult> {
+    const compositeMask = new Uint8Array(width * height)
+
+    // createRealisticWindowMask fills any rectangle; ceiling, floor and the walls between them
+    this.createRealisticWindowMask(compositeMask, width, height, 8, 0, 0, 1, 0.18)
+    this.createRealisticWindowMask(compositeMask, width, height, 10, 0, 0.8, 1, 0.2)
+    this.createRealisticWindowMask(compositeMask, width, height, 1, 0, 0.18, 1, 0.62)
+    onProgress?.(0.3)
+
+    // Baseboard along the floor line
+    this.createRealisticWindowMask(compositeMask, width, height, 5, 0, 0.77, 1, 0.03)
+
+    // Door on the left, window on the right, cabinets in between
+    this.createRealisticWindowMask(compositeMask, width, height, 4, 0.08, 0.38, 0.14, 0.42)
+    this.createRealisticWindowMask(compositeMask, width, height, 3, 0.64, 0.3, 0.22, 0.25)
+    this.createRealisticWindowMask(compositeMask, width, height, 9, 0.32, 0.58, 0.24, 0.19)
+    onProgress?.(0.6)
+
+    const confidences: { [key: number]: number } = {
+      1: 0.94, // Walls
+      3: 0.9, // Windows
+      4: 0.91, // Doors
+      5: 0.82, // Baseboards
+      8: 0.93, // Ceiling
+      9: 0.86, // Cabinets
+      10: 0.9 // Floor
+    }
+
+    const masks = splitCompositeMask(
+      compositeMask,
+      width,
+      height,
+      INTERIOR_CLASSES,
+      classId => confidences[classId] || 0.85,
+      0.01
+    )
 
     return {
       masks,
-      classes: SEGMENTATION_CLASSES
+      classes: INTERIOR_CLASSES,
+      backend: this.id
     }
   }
 
@@ -246,14 +241,6 @@ class SegmentationService {
       }
     }
   }
-
-  getClassById(id: number): SegmentationClass | undefined {
-    return SEGMENTATION_CLASSES.find(c => c.id === id)
-  }
-
-  getAllClasses(): SegmentationClass[] {
-    return SEGMENTATION_CLASSES
-  }
 }
 
-export const segmentationService = new SegmentationService()
\ No newline at end of file
+export const mockBackend = new MockSegmentationBackend()
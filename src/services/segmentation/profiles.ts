@@ -0,0 +1,53 @@
+import { INTERIOR_CLASSES, SEGMENTATION_CLASSES } from './classes'
+import { SegmentationClass } from './types'
+
+export type SceneProfileId = 'exterior' | 'interior'
+
+// What kind of photo is being painted; decides the class set, how the
+// heuristic segmenters read the image and which colors get suggested
+export interface SceneProfile {
+  id: SceneProfileId
+  displayName: string
+  description: string
+  classes: SegmentationClass[]
+  popularColors: string[] // Quick picks shown in the color picker, most popular first
+}
+
+export const SCENE_PROFILES: Record<SceneProfileId, SceneProfile> = {
+  exterior: {
+    id: 'exterior',
+    displayName: 'House Exterior',
+    description: 'Walls, roof, trim, doors and windows seen from outside',
+    classes: SEGMENTATION_CLASSES,
+    popularColors: [
+      '#F5F5DC', // Beige
+      '#D2B48C', // Tan
+      '#8B7355', // Dark Khaki
+      '#696969', // Dim Gray
+      '#2F4F4F', // Dark Slate Gray
+      '#8B4513', // Saddle Brown
+      '#CD853F', // Peru
+      '#A0522D'  // Sienna
+    ]
+  },
+  interior: {
+    id: 'interior',
+    displayName: 'Interior Room',
+    description: 'Walls, ceiling, baseboards, cabinets, doors and floor of a room',
+    classes: INTERIOR_CLASSES,
+    popularColors: [
+      '#F8F8F2', // Chalk White
+      '#EDE6DB', // Alabaster
+      '#D6CFC4', // Greige
+      '#C9CCC4', // Soft Sage Gray
+      '#B8C4CE', // Misty Blue
+      '#7D8C7A', // Muted Green
+      '#34495E', // Navy Slate
+      '#2E2E2E'  // Charcoal
+    ]
+  }
+}
+
+export const DEFAULT_SCENE_PROFILE: SceneProfileId = 'exterior'
+
+export const getSceneProfile = (id: SceneProfileId = DEFAULT_SCENE_PROFILE): SceneProfile => SCENE_PROFILES[id]
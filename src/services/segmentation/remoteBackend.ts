@@ -0,0 +1,76 @@
+import { apiService, RemoteSegment } from '../api'
+import { SEGMENTATION_CLASSES } from './classes'
+import { SegmentationBackend, SegmentationMask, SegmentationResult, SegmentOptions } from './types'
+import { resizeMaskNearest } from '../../utils/maskUtils'
+
+// Server-side segmentation through the /segment/auto endpoint
+class RemoteSegmentationBackend implements SegmentationBackend {
+  readonly id = 'remote' as const
+  readonly displayName = 'Cloud Segmentation'
+  readonly description = 'Uploads the photo to the ColorMyHouse API for analysis'
+  readonly capabilities = {
+    requiresWeights: false,
+    requiresNetwork: true,
+    followsImageContent: true,
+    sceneProfiles: ['exterior' as const]
+  }
+
+  async initialize(): Promise<void> {}
+
+  async segment(image: globalThis.ImageData, options: SegmentOptions = {}): Promise<SegmentationResult> {
+    const imageId = options.imageId ?? await this.uploadImage(image)
+    options.onProgress?.(0.3)
+
+    const response = await apiService.autoSegment(imageId)
+    options.onProgress?.(0.8)
+    if (!response.success) {
+      throw new Error(response.error || 'Remote segmentation failed')
+    }
+
+    const masks = response.data.segments
+      .map(segment => this.decodeSegment(segment, image.width, image.height))
+      .filter((mask): mask is SegmentationMask => mask !== null)
+
+    return {
+      masks,
+      classes: SEGMENTATION_CLASSES,
+      backend: this.id
+    }
+  }
+
+  dispose(): void {}
+
+  private async uploadImage(image: globalThis.ImageData): Promise<string> {
+    const canvas = new OffscreenCanvas(image.width, image.height)
+    canvas.getContext('2d')!.putImageData(image, 0, 0)
+    const blob = await canvas.convertToBlob({ type: 'image/png' })
+
+    const response = await apiService.uploadImage(new File([blob], 'house.png', { type: 'image/png' }))
+    if (!response.success) {
+      throw new Error(response.error || 'Image upload failed')
+    }
+    return response.data.id
+  }
+
+  private decodeSegment(segment: RemoteSegment, width: number, height: number): SegmentationMask | null {
+    const segClass = SEGMENTATION_CLASSES.find(c => c.id === segment.classId)
+    if (!segClass || segClass.id === 0) return null
+
+    const raw = atob(segment.mask)
+    const decoded = new Uint8Array(raw.length)
+    for (let i = 0; i < raw.length; i++) {
+      decoded[i] = raw.charCodeAt(i) > 0 ? segClass.id : 0
+    }
+
+    return {
+      data: resizeMaskNearest(decoded, segment.width, segment.height, width, height),
+      width,
+      height,
+      classId: segClass.id,
+      className: segClass.name,
+      confidence: segment.confidence
+    }
+  }
+}
+
+export const remoteBackend = new RemoteSegmentationBackend()
@@ -0,0 +1,127 @@
+import * as tf from '@tensorflow/tfjs'
+import { SEGMENTATION_CLASSES } from './classes'
+import { SegmentationBackend, SegmentationResult, SegmentOptions } from './types'
+import { resizeMaskNearest, splitCompositeMask } from '../../utils/maskUtils'
+
+// Weights are served from public/, override the base path with VITE_TENSORFLOW_MODEL_URL
+const MODEL_BASE_URL = import.meta.env.VITE_TENSORFLOW_MODEL_URL || '/models'
+export const SEGMENTATION_MODEL_URL = `${MODEL_BASE_URL}/house-segmentation/model.json`
+
+// Fallback input resolution when the model declares dynamic spatial dimensions
+const DEFAULT_MODEL_INPUT_SIZE = 512
+
+type SegmentationModel = tf.GraphModel | tf.LayersModel
+
+// Local TensorFlow.js model running on the CPU backend
+class TfjsSegmentationBackend implements SegmentationBackend {
+  readonly id = 'tfjs' as const
+  readonly displayName = 'Local AI Model'
+  readonly description = 'Runs the bundled segmentation model in your browser'
+  readonly capabilities = {
+    requiresWeights: true,
+    requiresNetwork: false,
+    followsImageContent: true,
+    sceneProfiles: ['exterior' as const]
+  }
+
+  private model: SegmentationModel | null = null
+
+  async initialize(): Promise<void> {
+    if (this.model) return
+
+    await tf.setBackend('cpu')
+    await tf.ready()
+    this.model = await this.loadModel(SEGMENTATION_MODEL_URL)
+    console.log('Segmentation model initialized:', SEGMENTATION_MODEL_URL)
+  }
+
+  // Map per-pixel logits (NHWC, one channel per entry in SEGMENTATION_CLASSES)
+  // back onto the original image resolution
+  async segment(image: globalThis.ImageData, options: SegmentOptions = {}): Promise<SegmentationResult> {
+    await this.initialize()
+    options.onProgress?.(0.1)
+
+    const model = this.model!
+    const { width, height } = image
+    const [inputHeight, inputWidth] = this.getModelInputSize(model)
+
+    const input = tf.tidy(() => {
+      const pixels = tf.browser.fromPixels(image)
+      return tf.image.resizeBilinear(pixels, [inputHeight, inputWidth])
+        .toFloat()
+        .div(255)
+        .expandDims(0)
+    })
+
+    const prediction = model.predict(input) as tf.Tensor | tf.Tensor[]
+    const logits = Array.isArray(prediction) ? prediction[0] : prediction
+
+    const [labelTensor, probabilityTensor] = tf.tidy(() => {
+      const probabilities = tf.softmax(logits.squeeze([0]) as tf.Tensor3D, -1)
+      return [probabilities.argMax(-1), probabilities.max(-1)]
+    })
+
+    options.onProgress?.(0.7)
+
+    const [outputHeight, outputWidth] = labelTensor.shape as [number, number]
+    const labels = await labelTensor.data() as Int32Array
+    const probabilities = await probabilityTensor.data() as Float32Array
+
+    tf.dispose([input, labelTensor, probabilityTensor])
+    tf.dispose(prediction)
+
+    // Accumulate confidence at model resolution, where probabilities are exact
+    const confidenceSums = new Float64Array(256)
+    const confidenceCounts = new Uint32Array(256)
+    const labelMap = new Uint8Array(labels.length)
+    for (let i = 0; i < labels.length; i++) {
+      const classId = SEGMENTATION_CLASSES[labels[i]]?.id ?? 0
+      labelMap[i] = classId
+      confidenceSums[classId] += probabilities[i]
+      confidenceCounts[classId]++
+    }
+
+    options.onProgress?.(0.85)
+    const compositeMask = resizeMaskNearest(labelMap, outputWidth, outputHeight, width, height)
+    const masks = splitCompositeMask(
+      compositeMask,
+      width,
+      height,
+      SEGMENTATION_CLASSES,
+      classId => confidenceSums[classId] / Math.max(1, confidenceCounts[classId])
+    )
+
+    return {
+      masks,
+      classes: SEGMENTATION_CLASSES,
+      backend: this.id
+    }
+  }
+
+  dispose(): void {
+    this.model?.dispose()
+    this.model = null
+  }
+
+  // Graph models come from the TF converter, layers models from Keras exports
+  private async loadModel(url: string): Promise<SegmentationModel> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Segmentation model not found at ${url} (${response.status})`)
+    }
+    const manifest = await response.json() as { format?: string }
+
+    return manifest.format === 'layers-model'
+      ? tf.loadLayersModel(url)
+      : tf.loadGraphModel(url)
+  }
+
+  private getModelInputSize(model: SegmentationModel): [number, number] {
+    const shape = model.inputs[0]?.shape ?? []
+    const inputHeight = shape[1] && shape[1] > 0 ? shape[1] : DEFAULT_MODEL_INPUT_SIZE
+    const inputWidth = shape[2] && shape[2] > 0 ? shape[2] : DEFAULT_MODEL_INPUT_SIZE
+    return [inputHeight, inputWidth]
+  }
+}
+
+export const tfjsBackend = new TfjsSegmentationBackend()
@@ -0,0 +1,53 @@
+import { ClassName } from './classes'
+import { SceneProfileId } from './profiles'
+
+export interface SegmentationMask {
+  data: Uint8Array
+  width: number
+  height: number
+  classId: number
+  className: string
+  confidence: number
+  alpha?: Uint8Array // Optional 0-255 soft coverage; data stays the hard (alpha >= 128) mask
+  instanceId?: number // Set when the mask is cut down to one connected piece (see getInstanceMask)
+}
+
+export interface SegmentationResult {
+  masks: SegmentationMask[]
+  classes: SegmentationClass[]
+  backend?: SegmentationBackendId // Which backend produced the masks
+}
+
+export interface SegmentationClass {
+  id: number
+  name: ClassName
+  color: string // Overlay color
+  displayName: string
+  custom?: boolean // Added by the user rather than produced by a backend
+}
+
+export type SegmentationBackendId = 'tfjs' | 'classical' | 'remote' | 'mock'
+
+export interface SegmentationBackendCapabilities {
+  requiresWeights: boolean // Needs model files to be present before it can run
+  requiresNetwork: boolean // Sends the photo to the API server
+  followsImageContent: boolean // False for placeholder output that ignores the photo
+  sceneProfiles: SceneProfileId[] // Kinds of photo the backend can segment
+}
+
+export interface SegmentOptions {
+  imageId?: string
+  profile?: SceneProfileId // Defaults to exterior
+  onProgress?: (progress: number) => void // 0-1
+}
+
+// Common contract for everything that can turn a photo into class masks
+export interface SegmentationBackend {
+  readonly id: SegmentationBackendId
+  readonly displayName: string
+  readonly description: string
+  readonly capabilities: SegmentationBackendCapabilities
+  initialize(): Promise<void>
+  segment(image: globalThis.ImageData, options?: SegmentOptions): Promise<SegmentationResult>
+  dispose(): void
+}
@@ -1,23 +1,156 @@
 import { create } from 'zustand'
-import { AppState, Color, ImageData, Selection, Tool } from '../types'
-import { SegmentationResult } from '../services/segmentation'
+import { AppState, Color, ColorScheme, ImageData, InstanceRef, LayerSource, MaskSelection, Project, RegionColor, Selection, SelectionMode, Tool } from '../types'
+import {
+  createCustomClass,
+  DEFAULT_SCENE_PROFILE,
+  findClass,
+  getSceneProfile,
+  SceneProfileId,
+  SegmentationClass,
+  SegmentationMask,
+  SegmentationResult
+} from '../services/segmentation'
+import { combineMasks, countMaskPixels, getInstanceMask } from '../utils/maskUtils'
+import { getRegionKey, isInstanceRegionOf } from '../utils/colorScheme'
+import { isClassLocked, syncLayers } from '../utils/layers'
+import { applyHistoryItem, HistoryDocument, recordHistory } from '../utils/history'
+import { ProjectSession } from '../services/projectStorage'
 
 interface AppStore extends AppState {
+  sceneProfile: SceneProfileId
+  classes: SegmentationClass[] // Class registry: built-in classes followed by user-defined ones
   segmentation: SegmentationResult | null
   selectedAreas: number[]
+  selectedInstances: InstanceRef[]
+  colorScheme: ColorScheme
+  historyIndex: number // Steps of project.history currently applied; later ones can be redone
   setImage: (image: ImageData) => void
+  setProjectInfo: (id: string, name: string) => void
+  openProject: (project: Project, session: ProjectSession) => void
+  closeProject: () => void
   setActiveTool: (tool: Tool) => void
   setSelectedColor: (color: Color) => void
   setZoom: (zoom: number) => void
   addSelection: (selection: Selection) => void
   removeSelection: (id: string) => void
   updateSelection: (id: string, updates: Partial<Selection>) => void
+  moveSelection: (id: string, toIndex: number) => void
   clearSelections: () => void
   setSegmentation: (segmentation: SegmentationResult | null) => void
   toggleSelectedArea: (classId: number) => void
+  toggleSelectedInstance: (instance: InstanceRef) => void
   clearSelectedAreas: () => void
+  applyMaskSelection: (selection: MaskSelection) => void
+  replaceMask: (mask: SegmentationMask) => void
+  setRegionColor: (regionKey: string, regionColor: RegionColor) => void
+  removeRegionColor: (regionKey: string) => void
+  clearColorScheme: () => void
+  setSceneProfile: (sceneProfile: SceneProfileId) => void
+  addCustomClass: (displayName: string, color: string) => SegmentationClass
+  removeCustomClass: (classId: number) => void
+  undo: () => void
+  redo: () => void
+  jumpToHistory: (index: number) => void
 }
 
+// Instance numbers change whenever a class mask is edited, so selections and
+// colors of that class's instances are dropped with it
+const forgetInstances = (state: AppStore, classId: number) => ({
+  selectedInstances: state.selectedInstances.filter(ref => ref.classId !== classId),
+  colorScheme: Object.fromEntries(
+    Object.entries(state.colorScheme).filter(([key]) => !isInstanceRegionOf(key, classId))
+  )
+})
+
+// project.selections is the layer stack; it is re-derived whenever masks or
+// colors change
+const withLayers = (state: AppStore, update: Partial<AppStore>, source: LayerSource = 'manual'): Partial<AppStore> => {
+  const next = { ...state, ...update }
+  return {
+    ...update,
+    project: {
+      ...next.project,
+      selections: syncLayers(
+        next.project.selections,
+        next.segmentation?.masks ?? [],
+        next.classes,
+        next.colorScheme,
+        source
+      )
+    }
+  }
+}
+
+const getDocument = (state: AppStore): HistoryDocument => ({
+  segmentation: state.segmentation,
+  selectedAreas: state.selectedAreas,
+  selectedInstances: state.selectedInstances,
+  colorScheme: state.colorScheme,
+  selections: state.project.selections,
+  classes: state.classes,
+  sceneProfile: state.sceneProfile
+})
+
+// Record an update as one undoable step; updates sharing a merge key in quick
+// succession (slider drags, vertex drags) become a single step
+const withHistory = (state: AppStore, action: string, update: Partial<AppStore>, mergeKey?: string): Partial<AppStore> => {
+  if (Object.keys(update).length === 0) return update
+
+  const project = update.project ?? state.project
+  const { history, historyIndex } = recordHistory(
+    project.history,
+    state.historyIndex,
+    action,
+    getDocument(state),
+    getDocument({ ...state, ...update }),
+    mergeKey
+  )
+  return {
+    ...update,
+    historyIndex,
+    project: { ...project, history }
+  }
+}
+
+const getClassName = (state: AppStore, classId: number) =>
+  findClass(state.classes, classId)?.displayName ?? `Class ${classId}`
+
+const getLayerName = (state: AppStore, id: string) =>
+  state.project.selections.find(s => s.id === id)?.name ?? id
+
+const MASK_ACTIONS: Record<SelectionMode, string> = {
+  replace: 'Edit',
+  add: 'Add to',
+  subtract: 'Cut from',
+  intersect: 'Intersect'
+}
+
+type RegionColorChange = 'color' | 'intensity' | 'sheen'
+
+const REGION_COLOR_ACTIONS: Record<RegionColorChange, string> = {
+  color: 'Color',
+  intensity: 'Change intensity of',
+  sheen: 'Change sheen of'
+}
+
+// Which part of a region's paint an update changes
+const getRegionColorChange = (previous: RegionColor | undefined, next: RegionColor): RegionColorChange => {
+  if (!previous || previous.color.hex !== next.color.hex) return 'color'
+  return previous.intensity !== next.intensity ? 'intensity' : 'sheen'
+}
+
+const describeLayerUpdate = (name: string, updates: Partial<Selection>): string => {
+  if (updates.visible !== undefined) return `${updates.visible ? 'Show' : 'Hide'} ${name}`
+  if (updates.locked !== undefined) return `${updates.locked ? 'Lock' : 'Unlock'} ${name}`
+  if (updates.color) return `Color ${name}`
+  if (updates.opacity !== undefined) return `Change opacity of ${name}`
+  if (updates.blendMode) return `Change blend of ${name}`
+  if (updates.name !== undefined) return `Rename ${name}`
+  return `Edit ${name}`
+}
+
+const DEFAULT_LAYER_INTENSITY = 1
+
 const initialColor: Color = {
   hue: 0,
   saturation: 100,
@@ -25,9 +158,10 @@ const initialColor: Color = {
   hex: '#ff0000'
 }
 
-export const useAppStore = create<AppStore>((set) => ({
+export const useAppStore = create<AppStore>((set, get) => ({
   project: {
     id: '',
+    name: '',
     image: {
       id: '',
       url: '',
@@ -43,14 +177,63 @@ export const useAppStore = create<AppStore>((set) => ({
     selectedColor: initialColor,
     zoom: 1
   },
+  sceneProfile: DEFAULT_SCENE_PROFILE,
+  classes: getSceneProfile(DEFAULT_SCENE_PROFILE).classes,
   segmentation: null,
   selectedAreas: [],
+  selectedInstances: [],
+  colorScheme: {},
+  historyIndex: 0,
   
+  // A new photo starts a new history; masks from the old one can't be restored onto it.
+  // It isn't a saved project until setProjectInfo is called.
   setImage: (image) =>
     set((state) => ({
       project: {
         ...state.project,
-        image
+        id: '',
+        name: '',
+        image,
+        history: []
+      },
+      historyIndex: 0
+    })),
+
+  setProjectInfo: (id, name) =>
+    set((state) => ({
+      project: {
+        ...state.project,
+        id,
+        name
+      }
+    })),
+
+  // Put back a saved project exactly as it was left
+  openProject: (project, session) =>
+    set(() => ({
+      project: {
+        id: project.id,
+        name: project.name,
+        image: project.image,
+        selections: project.selections,
+        history: project.history
+      },
+      sceneProfile: session.sceneProfile,
+      classes: session.classes,
+      segmentation: session.segmentation,
+      selectedAreas: session.selectedAreas,
+      selectedInstances: session.selectedInstances,
+      colorScheme: session.colorScheme,
+      historyIndex: session.historyIndex
+    })),
+
+  // Stop tying edits to the open project, so clearing the editor doesn't touch what was saved
+  closeProject: () =>
+    set((state) => ({
+      project: {
+        ...state.project,
+        id: '',
+        name: ''
       }
     })),
     
@@ -86,23 +269,87 @@ export const useAppStore = create<AppStore>((set) => ({
       }
     })),
     
+  // Deleting a layer deletes what it draws: a class layer takes its mask with
+  // it, a piece layer erases the piece from its class mask
   removeSelection: (id) =>
-    set((state) => ({
-      project: {
-        ...state.project,
-        selections: state.project.selections.filter(s => s.id !== id)
+    set((state) => {
+      const layer = state.project.selections.find(s => s.id === id)
+      if (!layer || layer.locked) return {}
+
+      const colorScheme = { ...state.colorScheme }
+      delete colorScheme[id]
+
+      const action = `Delete layer ${layer.name}`
+      if (layer.instanceId) {
+        const mask = state.segmentation?.masks.find(m => m.classId === layer.classId)
+        if (!state.segmentation || !mask || isClassLocked(state.project.selections, layer.classId)) return {}
+
+        // Other pieces survive, but without the soft alpha that matched the old mask
+        const data = combineMasks(mask.data, getInstanceMask(mask, layer.instanceId).data, 'subtract', layer.classId)
+        const hasPixels = countMaskPixels(data) > 0
+        return withHistory(state, action, withLayers(state, {
+          ...forgetInstances({ ...state, colorScheme }, layer.classId),
+          segmentation: {
+            ...state.segmentation,
+            masks: hasPixels
+              ? state.segmentation.masks.map(m => m === mask ? { ...mask, data, alpha: undefined } : m)
+              : state.segmentation.masks.filter(m => m !== mask)
+          },
+          selectedAreas: hasPixels ? state.selectedAreas : state.selectedAreas.filter(classId => classId !== layer.classId)
+        }))
       }
-    })),
+
+      return withHistory(state, action, withLayers(state, {
+        ...forgetInstances({ ...state, colorScheme }, layer.classId),
+        segmentation: state.segmentation && {
+          ...state.segmentation,
+          masks: state.segmentation.masks.filter(m => m.classId !== layer.classId)
+        },
+        selectedAreas: state.selectedAreas.filter(classId => classId !== layer.classId)
+      }))
+    }),
     
+  // A color given here is written through to the color scheme
   updateSelection: (id, updates) =>
-    set((state) => ({
-      project: {
-        ...state.project,
-        selections: state.project.selections.map(s =>
-          s.id === id ? { ...s, ...updates } : s
-        )
-      }
-    })),
+    set((state) => {
+      const colorScheme = updates.color
+        ? {
+          ...state.colorScheme,
+          [id]: {
+            ...state.colorScheme[id],
+            intensity: state.colorScheme[id]?.intensity ?? DEFAULT_LAYER_INTENSITY,
+            color: updates.color
+          }
+        }
+        : state.colorScheme
+
+      return withHistory(state, describeLayerUpdate(getLayerName(state, id), updates), {
+        colorScheme,
+        project: {
+          ...state.project,
+          selections: state.project.selections.map(s =>
+            s.id === id ? { ...s, ...updates } : s
+          )
+        }
+      }, `layer:${id}:${Object.keys(updates).join(',')}`)
+    }),
+
+  // Reorder the layer stack; index 0 is the bottom layer
+  moveSelection: (id, toIndex) =>
+    set((state) => {
+      const selections = [...state.project.selections]
+      const fromIndex = selections.findIndex(s => s.id === id)
+      if (fromIndex === -1) return {}
+
+      const [layer] = selections.splice(fromIndex, 1)
+      selections.splice(Math.max(0, Math.min(selections.length, toIndex)), 0, layer)
+      return withHistory(state, `Move layer ${layer.name}`, {
+        project: {
+          ...state.project,
+          selections
+        }
+      })
+    }),
     
   clearSelections: () =>
     set((state) => ({
@@ -113,19 +360,185 @@ export const useAppStore = create<AppStore>((set) => ({
     })),
     
   setSegmentation: (segmentation) =>
-    set(() => ({
+    set((state) => withHistory(state, segmentation ? 'Detect areas' : 'Clear detected areas', withLayers(state, {
       segmentation
-    })),
+    }, 'ai'))),
     
   toggleSelectedArea: (classId) =>
-    set((state) => ({
-      selectedAreas: state.selectedAreas.includes(classId)
-        ? state.selectedAreas.filter(id => id !== classId)
-        : [...state.selectedAreas, classId]
-    })),
+    set((state) => {
+      const isSelected = state.selectedAreas.includes(classId)
+      return withHistory(state, `${isSelected ? 'Deselect' : 'Select'} ${getClassName(state, classId)}`, {
+        selectedAreas: isSelected
+          ? state.selectedAreas.filter(id => id !== classId)
+          : [...state.selectedAreas, classId]
+      })
+    }),
+    
+  toggleSelectedInstance: ({ classId, instanceId }) =>
+    set((state) => {
+      const isSelected = state.selectedInstances.some(ref => ref.classId === classId && ref.instanceId === instanceId)
+      const action = `${isSelected ? 'Deselect' : 'Select'} ${getClassName(state, classId)} #${instanceId}`
+      return withHistory(state, action, withLayers(state, {
+        selectedInstances: isSelected
+          ? state.selectedInstances.filter(ref => ref.classId !== classId || ref.instanceId !== instanceId)
+          : [...state.selectedInstances, { classId, instanceId }]
+      }))
+    }),
     
   clearSelectedAreas: () =>
-    set(() => ({
-      selectedAreas: []
+    set((state) => withHistory(state, 'Clear selection', withLayers(state, {
+      selectedAreas: [],
+      selectedInstances: []
+    }))),
+
+  // Merge a manual selection into its class mask, creating the mask (and the
+  // segmentation result itself) when the user works without AI detection
+  applyMaskSelection: ({ classId, mask, mode }) =>
+    set((state) => {
+      const { width, height } = state.project.image
+      if (mask.length !== width * height || isClassLocked(state.project.selections, classId)) return {}
+
+      const segmentation = state.segmentation ?? { masks: [], classes: getSceneProfile(state.sceneProfile).classes }
+      const existing = segmentation.masks.find(m => m.classId === classId)
+      const data = combineMasks(existing?.data ?? null, mask, mode, classId)
+      const hasPixels = countMaskPixels(data) > 0
+      const segClass = state.classes.find(c => c.id === classId)
+
+      // The edited mask is rebuilt without soft alpha, which no longer matches it
+      const masks = segmentation.masks.filter(m => m.classId !== classId)
+      if (hasPixels) {
+        masks.push({
+          data,
+          width,
+          height,
+          classId,
+          className: segClass?.name ?? 'custom',
+          confidence: existing?.confidence ?? 1 // Hand-made selections are taken as certain
+        })
+      }
+
+      const selectedAreas = state.selectedAreas.filter(id => id !== classId)
+      if (hasPixels) {
+        selectedAreas.push(classId)
+      }
+
+      // Replacing is how outlines are re-edited, so a drag of one becomes one step
+      return withHistory(state, `${MASK_ACTIONS[mode]} ${getClassName(state, classId)}`, withLayers(state, {
+        ...forgetInstances(state, classId),
+        segmentation: { ...segmentation, masks },
+        selectedAreas
+      }), mode === 'replace' ? `mask:${classId}` : undefined)
+    }),
+
+  // Swap in a processed version of a class mask, e.g. after edge refinement
+  replaceMask: (mask) =>
+    set((state) => {
+      if (!state.segmentation || isClassLocked(state.project.selections, mask.classId)) return {}
+      return withHistory(state, `Refine ${getClassName(state, mask.classId)}`, withLayers(state, {
+        ...forgetInstances(state, mask.classId),
+        segmentation: {
+          ...state.segmentation,
+          masks: state.segmentation.masks.map(m => (m.classId === mask.classId ? mask : m))
+        }
+      }))
+    }),
+
+  // Picker and slider drags on one region fold into a single step
+  setRegionColor: (regionKey, regionColor) =>
+    set((state) => {
+      const change = getRegionColorChange(state.colorScheme[regionKey], regionColor)
+      return withHistory(state, `${REGION_COLOR_ACTIONS[change]} ${getLayerName(state, regionKey)}`, withLayers(state, {
+        colorScheme: {
+          ...state.colorScheme,
+          [regionKey]: regionColor
+        }
+      }), `${change}:${regionKey}`)
+    }),
+
+  removeRegionColor: (regionKey) =>
+    set((state) => {
+      if (!state.colorScheme[regionKey]) return {}
+      const colorScheme = { ...state.colorScheme }
+      delete colorScheme[regionKey]
+      return withHistory(state, `Clear color of ${getLayerName(state, regionKey)}`, withLayers(state, { colorScheme }))
+    }),
+
+  clearColorScheme: () =>
+    set((state) => {
+      if (Object.keys(state.colorScheme).length === 0) return {}
+      return withHistory(state, 'Clear all colors', withLayers(state, {
+        colorScheme: {}
+      }))
+    }),
+
+  // The scene decides the built-in classes, so masks, selections and colors
+  // from the previous scene are dropped; custom classes carry over
+  setSceneProfile: (sceneProfile) =>
+    set((state) => {
+      if (state.sceneProfile === sceneProfile) return {}
+      return withHistory(state, `Switch to ${getSceneProfile(sceneProfile).displayName}`, withLayers(state, {
+        sceneProfile,
+        classes: [...getSceneProfile(sceneProfile).classes, ...state.classes.filter(c => c.custom)],
+        segmentation: null,
+        selectedAreas: [],
+        selectedInstances: [],
+        colorScheme: {}
+      }))
+    }),
+
+  // Throws when the name is empty or taken, so the form can show why
+  addCustomClass: (displayName, color) => {
+    const segClass = createCustomClass(displayName, color, get().classes)
+    set((state) => withHistory(state, `Add class ${segClass.displayName}`, {
+      classes: [...state.classes, segClass]
     }))
+    return segClass
+  },
+
+  // Drop a user-defined class along with its mask, selections and colors
+  removeCustomClass: (classId) =>
+    set((state) => {
+      if (!state.classes.some(c => c.id === classId && c.custom)) return {}
+
+      const { selectedInstances, colorScheme } = forgetInstances(state, classId)
+      delete colorScheme[getRegionKey(classId)]
+
+      return withHistory(state, `Remove class ${getClassName(state, classId)}`, withLayers(state, {
+        classes: state.classes.filter(c => c.id !== classId),
+        segmentation: state.segmentation && {
+          ...state.segmentation,
+          masks: state.segmentation.masks.filter(m => m.classId !== classId)
+        },
+        selectedAreas: state.selectedAreas.filter(id => id !== classId),
+        selectedInstances,
+        colorScheme
+      }))
+    }),
+
+  undo: () => get().jumpToHistory(get().historyIndex - 1),
+
+  redo: () => get().jumpToHistory(get().historyIndex + 1),
+
+  // Step back or forward through the history until `index` steps are applied
+  jumpToHistory: (index) =>
+    set((state) => {
+      const { history } = state.project
+      const target = Math.max(0, Math.min(history.length, index))
+      if (target === state.historyIndex) return {}
+
+      let document = getDocument(state)
+      for (let i = state.historyIndex; i > target; i--) {
+        document = applyHistoryItem(document, history[i - 1], 'before')
+      }
+      for (let i = state.historyIndex; i < target; i++) {
+        document = applyHistoryItem(document, history[i], 'after')
+      }
+
+      const { selections, ...restored } = document
+      return {
+        ...restored,
+        historyIndex: target,
+        project: { ...state.project, selections }
+      }
+    })
 }))
\ No newline at end of file
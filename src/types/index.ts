@@ -1,3 +1,5 @@
+import { ClassName } from '../services/segmentation/classes'
+
 export interface ImageData {
   id: string
   url: string
@@ -6,12 +8,27 @@ export interface ImageData {
   originalUrl: string
 }
 
+// How a layer's recolored pixels combine with the photo underneath
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light'
+
+// Where a layer's mask came from
+export type LayerSource = 'ai' | 'manual' | 'instance'
+
+// One layer in the stack: a class mask, or a single piece of one. The stack is
+// ordered bottom to top and upper layers win where they overlap.
 export interface Selection {
-  id: string
+  id: string // getRegionKey() of the region, which also keys its color in the ColorScheme
   name: string
-  points: number[]
-  color?: Color
-  type: 'walls' | 'roof' | 'doors' | 'windows' | 'landscape' | 'sky'
+  points: number[] // Outline for shape layers; empty for mask layers
+  color?: Color // Mirrors the region's color in the ColorScheme
+  type: ClassName
+  classId: number
+  instanceId?: number
+  source: LayerSource
+  visible: boolean
+  locked: boolean // Locked layers keep their mask through edits
+  opacity: number // 0-1
+  blendMode: BlendMode
 }
 
 export interface Color {
@@ -21,6 +38,18 @@ export interface Color {
   hex: string
 }
 
+export type Sheen = 'flat' | 'eggshell' | 'satin' | 'semi-gloss' | 'gloss'
+
+// Target paint for one region of the house
+export interface RegionColor {
+  color: Color
+  intensity: number // 0-1, how strong the color change should be
+  sheen?: Sheen // Unset keeps the finish seen in the photo
+}
+
+// Keyed by getRegionKey(), so walls, trim, doors and roof each keep their own color
+export type ColorScheme = Record<string, RegionColor>
+
 export interface HistoryItem {
   id: string
   timestamp: number
@@ -30,6 +59,26 @@ export interface HistoryItem {
 
 export type Tool = 'select' | 'brush' | 'eraser' | 'colorPicker' | 'pan' | 'zoom'
 
+export type SelectionTool = 'ai' | 'brush' | 'eraser' | 'polygon' | 'wand' | 'lasso' | 'rectangle' | 'ellipse' | 'freehand' | 'scribble'
+
+// Which side of the boundary a Smart Select scribble marks
+export type ScribbleLabel = 'foreground' | 'background'
+
+// How a new selection combines with the existing mask of its class
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect'
+
+// One connected piece of a class mask (a single door, window or shutter)
+export interface InstanceRef {
+  classId: number
+  instanceId: number // 1-based label from getMaskInstances
+}
+
+export interface MaskSelection {
+  classId: number
+  mask: Uint8Array // Non-zero where selected, at image resolution
+  mode: SelectionMode
+}
+
 export interface Project {
   id: string
   name: string
@@ -40,9 +89,13 @@ export interface Project {
   updatedAt: Date
 }
 
+// Screens of the editor, in the order the user goes through them
+export type EditorStep = 'upload' | 'segment' | 'color'
+
 export interface AppState {
   project: {
-    id: string
+    id: string // Empty until the photo is saved as a project
+    name: string
     image: ImageData
     selections: Selection[]
     history: HistoryItem[]
@@ -0,0 +1,63 @@
+import { ColorChangeOptions } from '../services/colorProcessor'
+import { SegmentationMask } from '../services/segmentation/types'
+import { ColorScheme, Selection } from '../types'
+
+// Scheme entries are keyed per class, or per instance when one piece is colored on its own
+export const getRegionKey = (classId: number, instanceId?: number): string =>
+  instanceId ? `${classId}:${instanceId}` : String(classId)
+
+export const isInstanceRegionOf = (regionKey: string, classId: number): boolean =>
+  regionKey.startsWith(`${classId}:`)
+
+export interface SchemeLabels {
+  labels: Uint8Array // 1-based index into regions, 0 where nothing is recolored
+  regions: ColorChangeOptions[]
+  coverage?: Uint8Array // 0-255 soft coverage, only when some mask carries alpha
+}
+
+// Rendering settings shared by every region in one render
+export type SchemeRenderOptions = Omit<ColorChangeOptions, 'newColor' | 'intensity' | 'sheen'>
+
+// Build the label map consumed by ColorProcessor.applyColorScheme. Masks without
+// a color in the scheme are left untouched; later masks win where they overlap.
+// Layers, matched by region key, add opacity and blend mode and hide masks.
+export const buildSchemeLabels = (
+  masks: SegmentationMask[],
+  scheme: ColorScheme,
+  width: number,
+  height: number,
+  renderOptions: SchemeRenderOptions,
+  layers: Selection[] = []
+): SchemeLabels => {
+  const labels = new Uint8Array(width * height)
+  const regions: ColorChangeOptions[] = []
+  const hasAlpha = masks.some(mask => mask.alpha && scheme[getRegionKey(mask.classId, mask.instanceId)])
+  const coverage = hasAlpha ? new Uint8Array(width * height) : undefined
+
+  for (const mask of masks) {
+    const regionKey = getRegionKey(mask.classId, mask.instanceId)
+    const regionColor = scheme[regionKey]
+    const layer = layers.find(l => l.id === regionKey)
+    if (!regionColor || layer?.visible === false || mask.data.length !== labels.length) continue
+
+    regions.push({
+      ...renderOptions,
+      newColor: regionColor.color.hex,
+      intensity: regionColor.intensity,
+      sheen: regionColor.sheen,
+      opacity: layer?.opacity,
+      blendMode: layer?.blendMode
+    })
+    const label = regions.length
+    for (let i = 0; i < mask.data.length; i++) {
+      // Soft masks can reach past their hard mask into the surrounding pixels
+      const alpha = mask.alpha ? mask.alpha[i] : (mask.data[i] > 0 ? 255 : 0)
+      if (mask.data[i] > 0 || (alpha > 0 && labels[i] === 0)) {
+        labels[i] = label
+        if (coverage) coverage[i] = alpha
+      }
+    }
+  }
+
+  return { labels, regions, coverage }
+}
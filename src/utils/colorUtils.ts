@@ -1,4 +1,5 @@
 import { Color } from '../types'
+import { ColorRGB } from '../services/colorProcessor'
 
 export const hslToHex = (h: number, s: number, l: number): string => {
   s /= 100
@@ -66,4 +67,98 @@ export const adjustColorPreservingLuminance = (
     lightness: originalColor.lightness,
     hex: hslToHex(newHue, newSaturation, originalColor.lightness)
   }
-}
\ No newline at end of file
+}
+
+export interface LabColor {
+  l: number // 0-100
+  a: number
+  b: number
+}
+
+// sRGB gamma expansion, precomputed for every 8-bit channel value
+const SRGB_TO_LINEAR = new Float32Array(256).map((_, i) => {
+  const c = i / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+})
+
+// Gamma compression back to an 8-bit sRGB channel, clamping out-of-gamut values
+const linearToSrgb = (c: number): number => {
+  const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(Math.max(0, c), 1 / 2.4) - 0.055
+  return Math.round(Math.max(0, Math.min(1, v)) * 255)
+}
+
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116)
+
+// CIELAB (D65), where Euclidean distance approximates perceived color difference
+export const rgbToLab = (r: number, g: number, b: number): LabColor => {
+  const lr = SRGB_TO_LINEAR[r]
+  const lg = SRGB_TO_LINEAR[g]
+  const lb = SRGB_TO_LINEAR[b]
+
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883
+
+  const fx = labF(x)
+  const fy = labF(y)
+  const fz = labF(z)
+
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  }
+}
+
+const labFInverse = (t: number) => (t * t * t > 216 / 24389 ? t * t * t : (116 * t - 16) / (24389 / 27))
+
+export const labToRgb = ({ l, a, b }: LabColor): ColorRGB => {
+  const fy = (l + 16) / 116
+  const x = labFInverse(fy + a / 500) * 0.95047
+  const y = labFInverse(fy)
+  const z = labFInverse(fy - b / 200) * 1.08883
+
+  return {
+    r: linearToSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    g: linearToSrgb(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z),
+    b: linearToSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z)
+  }
+}
+
+// OKLab (Ottosson 2020). Same shape as LabColor but l is 0-1; hue stays more
+// uniform than CIELAB when chroma changes, notably for blues.
+export const rgbToOklab = (r: number, g: number, b: number): LabColor => {
+  const lr = SRGB_TO_LINEAR[r]
+  const lg = SRGB_TO_LINEAR[g]
+  const lb = SRGB_TO_LINEAR[b]
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+
+  return {
+    l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  }
+}
+
+export const oklabToRgb = ({ l: lightness, a, b }: LabColor): ColorRGB => {
+  const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3)
+  const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3)
+  const s = Math.pow(lightness - 0.0894841775 * a - 1.2914855480 * b, 3)
+
+  return {
+    r: linearToSrgb(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: linearToSrgb(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: linearToSrgb(-0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s)
+  }
+}
+
+// CIE76 color difference; ~2.3 is a just-noticeable difference
+export const deltaE = (first: LabColor, second: LabColor): number => {
+  const dl = first.l - second.l
+  const da = first.a - second.a
+  const db = first.b - second.b
+  return Math.sqrt(dl * dl + da * da + db * db)
+}
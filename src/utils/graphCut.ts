@@ -0,0 +1,503 @@
+import { refineMaskEdges } from './maskRefinement'
+
+// Values in a scribble map
+export const SCRIBBLE_NONE = 0
+export const SCRIBBLE_FOREGROUND = 1
+export const SCRIBBLE_BACKGROUND = 2
+
+export interface GraphCutOptions {
+  smoothness: number // 0-100, how strongly the region boundary prefers edges in the photo
+}
+
+// The max-flow solver works on at most about this many pixels; the cut is
+// upsampled and snapped back to the photo's edges at full resolution
+const MAX_GRAPH_PIXELS = 256 * 256
+// Color models are re-estimated from the cut this many times (GrabCut style)
+const ITERATIONS = 3
+// Capacities are integers so saturated edges are exactly zero
+const CAPACITY_SCALE = 16
+const HARD_CONSTRAINT = 1 << 24
+// 16 levels per RGB channel
+const HISTOGRAM_BITS = 4
+const HISTOGRAM_BINS = 1 << (HISTOGRAM_BITS * 3)
+const MIN_PROBABILITY = 1e-5
+// Share of each color model taken from the scribbles; the rest comes from the
+// current region (the previous mask, then each cut)
+const SCRIBBLE_MODEL_WEIGHT = 0.6
+
+// Parent markers in the max-flow search trees; edge indices are >= 0
+const TERMINAL = -1
+const NO_PARENT = -2
+const ORPHAN = -3
+
+interface FlowGraph {
+  head: Int32Array // First edge per node, -1 for none
+  next: Int32Array
+  to: Int32Array
+  capacity: Int32Array // Residual capacity; edges come in pairs, e ^ 1 is the reverse
+  terminal: Int32Array // Residual source capacity minus residual sink capacity
+}
+
+// Interactive segmentation from scribbles: foreground and background strokes
+// are hard constraints, color histograms learnt from them (and from the
+// previous region when refining) give the data term, and a contrast-sensitive
+// pairwise term makes the boundary follow edges in the photo (Boykov & Jolly
+// 2001, Rother et al. 2004). Returns a 0/1 mask at image resolution.
+export const segmentFromScribbles = (
+  image: globalThis.ImageData,
+  scribbles: Uint8Array,
+  options: GraphCutOptions,
+  previousMask?: Uint8Array
+): Uint8Array => {
+  const { width, height } = image
+  const factor = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_GRAPH_PIXELS)))
+  const lowWidth = Math.ceil(width / factor)
+  const lowHeight = Math.ceil(height / factor)
+  const lowSize = lowWidth * lowHeight
+
+  // Working resolution colors, scribbles and prior region
+  const colors = new Float32Array(lowSize * 3)
+  const counts = new Uint16Array(lowSize)
+  const foregroundHits = new Uint16Array(lowSize)
+  const backgroundHits = new Uint16Array(lowSize)
+  const priorHits = new Uint16Array(lowSize)
+  for (let y = 0; y < height; y++) {
+    const lowRow = Math.floor(y / factor) * lowWidth
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const low = lowRow + Math.floor(x / factor)
+      colors[low * 3] += image.data[i * 4]
+      colors[low * 3 + 1] += image.data[i * 4 + 1]
+      colors[low * 3 + 2] += image.data[i * 4 + 2]
+      counts[low]++
+      if (scribbles[i] === SCRIBBLE_FOREGROUND) foregroundHits[low]++
+      else if (scribbles[i] === SCRIBBLE_BACKGROUND) backgroundHits[low]++
+      if (previousMask && previousMask[i] !== 0) priorHits[low]++
+    }
+  }
+
+  const bins = new Int32Array(lowSize)
+  // Cells crossed by both kinds of stroke are left to the solver
+  const seeds = new Uint8Array(lowSize)
+  for (let i = 0; i < lowSize; i++) {
+    for (let c = 0; c < 3; c++) colors[i * 3 + c] /= counts[i]
+    bins[i] = colorBin(colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2])
+    if (foregroundHits[i] > 0 && backgroundHits[i] === 0) seeds[i] = SCRIBBLE_FOREGROUND
+    else if (backgroundHits[i] > 0 && foregroundHits[i] === 0) seeds[i] = SCRIBBLE_BACKGROUND
+  }
+
+  // Without background strokes the image border stands in as background samples
+  const hasBackgroundSeeds = seeds.includes(SCRIBBLE_BACKGROUND)
+  const foregroundSamples = seeds.map(seed => (seed === SCRIBBLE_FOREGROUND ? 1 : 0))
+  const backgroundSamples = seeds.map((seed, i) => {
+    if (hasBackgroundSeeds) return seed === SCRIBBLE_BACKGROUND ? 1 : 0
+    const x = i % lowWidth
+    const y = (i - x) / lowWidth
+    const onBorder = x === 0 || y === 0 || x === lowWidth - 1 || y === lowHeight - 1
+    return onBorder && seed !== SCRIBBLE_FOREGROUND ? 1 : 0
+  })
+  const foregroundScribbleModel = buildHistogram(bins, foregroundSamples)
+  const backgroundScribbleModel = buildHistogram(bins, backgroundSamples)
+
+  let region: Uint8Array | null = previousMask
+    ? Uint8Array.from(priorHits, (hits, i) => (hits * 2 >= counts[i] ? 1 : 0))
+    : null
+  const pairwise = computePairwiseWeights(colors, lowWidth, lowHeight, options.smoothness)
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const foregroundModel = region
+      ? mixHistograms(foregroundScribbleModel, buildHistogram(bins, region))
+      : foregroundScribbleModel
+    const backgroundModel = region
+      ? mixHistograms(backgroundScribbleModel, buildHistogram(bins, region.map(value => 1 - value)))
+      : backgroundScribbleModel
+
+    const graph = createGridGraph(lowWidth, lowHeight, pairwise)
+    for (let i = 0; i < lowSize; i++) {
+      if (seeds[i] === SCRIBBLE_FOREGROUND) {
+        graph.terminal[i] = HARD_CONSTRAINT
+      } else if (seeds[i] === SCRIBBLE_BACKGROUND) {
+        graph.terminal[i] = -HARD_CONSTRAINT
+      } else {
+        // Source capacity is the cost of calling the pixel background, sink the cost of foreground
+        const backgroundCost = -Math.log(Math.max(MIN_PROBABILITY, backgroundModel[bins[i]]))
+        const foregroundCost = -Math.log(Math.max(MIN_PROBABILITY, foregroundModel[bins[i]]))
+        graph.terminal[i] = Math.round((backgroundCost - foregroundCost) * CAPACITY_SCALE)
+      }
+    }
+
+    const cut = solveMinCut(graph)
+    if (region && cut.every((value, i) => value === region![i])) break
+    region = cut
+  }
+
+  return upsampleRegion(region!, image, factor, lowWidth, lowHeight, scribbles)
+}
+
+const colorBin = (r: number, g: number, b: number): number => {
+  const shift = 8 - HISTOGRAM_BITS
+  return ((Math.round(r) >> shift) << (HISTOGRAM_BITS * 2)) | ((Math.round(g) >> shift) << HISTOGRAM_BITS) | (Math.round(b) >> shift)
+}
+
+// Normalized color histogram of the sampled cells, blurred over neighbouring
+// bins so a handful of strokes still generalizes to similar shades
+const buildHistogram = (bins: Int32Array, samples: ArrayLike<number>): Float32Array => {
+  const levels = 1 << HISTOGRAM_BITS
+  const counts = new Float32Array(HISTOGRAM_BINS)
+  let total = 0
+  for (let i = 0; i < bins.length; i++) {
+    if (samples[i]) {
+      counts[bins[i]]++
+      total++
+    }
+  }
+  if (total === 0) return counts
+
+  const blurred = new Float32Array(HISTOGRAM_BINS)
+  for (let r = 0; r < levels; r++) {
+    for (let g = 0; g < levels; g++) {
+      for (let b = 0; b < levels; b++) {
+        const count = counts[(r << (HISTOGRAM_BITS * 2)) | (g << HISTOGRAM_BITS) | b]
+        if (count === 0) continue
+
+        for (let nr = Math.max(0, r - 1); nr <= Math.min(levels - 1, r + 1); nr++) {
+          for (let ng = Math.max(0, g - 1); ng <= Math.min(levels - 1, g + 1); ng++) {
+            for (let nb = Math.max(0, b - 1); nb <= Math.min(levels - 1, b + 1); nb++) {
+              // Centre bin counts double
+              const weight = nr === r && ng === g && nb === b ? 2 : 1
+              blurred[(nr << (HISTOGRAM_BITS * 2)) | (ng << HISTOGRAM_BITS) | nb] += count * weight
+            }
+          }
+        }
+      }
+    }
+  }
+
+  let sum = 0
+  for (let i = 0; i < HISTOGRAM_BINS; i++) sum += blurred[i]
+  for (let i = 0; i < HISTOGRAM_BINS; i++) blurred[i] /= sum
+  return blurred
+}
+
+const mixHistograms = (scribbleModel: Float32Array, regionModel: Float32Array): Float32Array => {
+  let regionTotal = 0
+  for (let i = 0; i < HISTOGRAM_BINS; i++) regionTotal += regionModel[i]
+  if (regionTotal === 0) return scribbleModel
+
+  let scribbleTotal = 0
+  for (let i = 0; i < HISTOGRAM_BINS; i++) scribbleTotal += scribbleModel[i]
+  if (scribbleTotal === 0) return regionModel
+
+  return scribbleModel.map((value, i) =>
+    value * SCRIBBLE_MODEL_WEIGHT + regionModel[i] * (1 - SCRIBBLE_MODEL_WEIGHT)
+  )
+}
+
+// Contrast-sensitive Potts weights for the right and down neighbour of each
+// cell: cheap to cut across strong color edges, expensive inside flat areas
+const computePairwiseWeights = (
+  colors: Float32Array,
+  width: number,
+  height: number,
+  smoothness: number
+): { right: Int32Array; down: Int32Array } => {
+  const distance = (a: number, b: number) => {
+    const dr = colors[a * 3] - colors[b * 3]
+    const dg = colors[a * 3 + 1] - colors[b * 3 + 1]
+    const db = colors[a * 3 + 2] - colors[b * 3 + 2]
+    return dr * dr + dg * dg + db * db
+  }
+
+  let sum = 0
+  let pairs = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (x < width - 1) { sum += distance(i, i + 1); pairs++ }
+      if (y < height - 1) { sum += distance(i, i + width); pairs++ }
+    }
+  }
+  const beta = sum > 0 ? pairs / (2 * sum) : 0
+
+  const right = new Int32Array(width * height)
+  const down = new Int32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (x < width - 1) right[i] = Math.round(smoothness * Math.exp(-beta * distance(i, i + 1)) * CAPACITY_SCALE)
+      if (y < height - 1) down[i] = Math.round(smoothness * Math.exp(-beta * distance(i, i + width)) * CAPACITY_SCALE)
+    }
+  }
+
+  return { right, down }
+}
+
+const createGridGraph = (
+  width: number,
+  height: number,
+  pairwise: { right: Int32Array; down: Int32Array }
+): FlowGraph => {
+  const size = width * height
+  const edgeCount = 2 * ((width - 1) * height + width * (height - 1))
+  const graph: FlowGraph = {
+    head: new Int32Array(size).fill(-1),
+    next: new Int32Array(edgeCount),
+    to: new Int32Array(edgeCount),
+    capacity: new Int32Array(edgeCount),
+    terminal: new Int32Array(size)
+  }
+
+  let edge = 0
+  const link = (a: number, b: number, capacity: number) => {
+    graph.to[edge] = b
+    graph.capacity[edge] = capacity
+    graph.next[edge] = graph.head[a]
+    graph.head[a] = edge++
+    graph.to[edge] = a
+    graph.capacity[edge] = capacity
+    graph.next[edge] = graph.head[b]
+    graph.head[b] = edge++
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (x < width - 1) link(i, i + 1, pairwise.right[i])
+      if (y < height - 1) link(i, i + width, pairwise.down[i])
+    }
+  }
+
+  return graph
+}
+
+// Boykov-Kolmogorov max-flow (2004): search trees grown from both terminals
+// are reused between augmentations instead of searching from scratch.
+// Returns 1 for nodes on the source (foreground) side of the minimum cut.
+const solveMinCut = (graph: FlowGraph): Uint8Array => {
+  const { head, next, to, capacity, terminal } = graph
+  const size = head.length
+  const SOURCE_TREE = 1
+  const SINK_TREE = 2
+
+  const tree = new Uint8Array(size)
+  const parent = new Int32Array(size).fill(NO_PARENT)
+  const timestamp = new Int32Array(size)
+  const distance = new Int32Array(size)
+  let time = 0
+
+  // FIFO of active nodes; each node is queued at most once
+  const queue = new Int32Array(size)
+  const queued = new Uint8Array(size)
+  let queueHead = 0
+  let queueLength = 0
+  const activate = (node: number) => {
+    if (queued[node]) return
+    queued[node] = 1
+    queue[(queueHead + queueLength) % size] = node
+    queueLength++
+  }
+
+  const orphans: number[] = []
+  const makeOrphan = (node: number) => {
+    parent[node] = ORPHAN
+    orphans.push(node)
+  }
+
+  for (let i = 0; i < size; i++) {
+    if (terminal[i] === 0) continue
+    tree[i] = terminal[i] > 0 ? SOURCE_TREE : SINK_TREE
+    parent[i] = TERMINAL
+    distance[i] = 1
+    activate(i)
+  }
+
+  for (;;) {
+    // Grow the trees until they touch; meet is the edge from the source tree to the sink tree
+    let meet = -1
+    while (queueLength > 0 && meet < 0) {
+      const node = queue[queueHead]
+      if (tree[node] !== 0) {
+        for (let e = head[node]; e !== -1; e = next[e]) {
+          const residual = tree[node] === SOURCE_TREE ? capacity[e] : capacity[e ^ 1]
+          if (residual <= 0) continue
+
+          const neighbour = to[e]
+          if (tree[neighbour] === 0) {
+            tree[neighbour] = tree[node]
+            parent[neighbour] = e ^ 1
+            distance[neighbour] = distance[node] + 1
+            timestamp[neighbour] = timestamp[node]
+            activate(neighbour)
+          } else if (tree[neighbour] !== tree[node]) {
+            meet = tree[node] === SOURCE_TREE ? e : e ^ 1
+            break
+          }
+        }
+      }
+
+      // A node that found a path stays active for the next round
+      if (meet < 0) {
+        queued[node] = 0
+        queueHead = (queueHead + 1) % size
+        queueLength--
+      }
+    }
+    if (meet < 0) break
+
+    // Augment along source root -> ... -> meet -> ... -> sink root
+    const sourceSide = to[meet ^ 1]
+    const sinkSide = to[meet]
+    let bottleneck = capacity[meet]
+    let node = sourceSide
+    while (parent[node] !== TERMINAL) {
+      bottleneck = Math.min(bottleneck, capacity[parent[node] ^ 1])
+      node = to[parent[node]]
+    }
+    bottleneck = Math.min(bottleneck, terminal[node])
+    node = sinkSide
+    while (parent[node] !== TERMINAL) {
+      bottleneck = Math.min(bottleneck, capacity[parent[node]])
+      node = to[parent[node]]
+    }
+    bottleneck = Math.min(bottleneck, -terminal[node])
+
+    capacity[meet] -= bottleneck
+    capacity[meet ^ 1] += bottleneck
+    node = sourceSide
+    while (parent[node] !== TERMINAL) {
+      const e = parent[node]
+      capacity[e] += bottleneck
+      capacity[e ^ 1] -= bottleneck
+      const parentNode = to[e]
+      if (capacity[e ^ 1] === 0) makeOrphan(node)
+      node = parentNode
+    }
+    terminal[node] -= bottleneck
+    if (terminal[node] === 0) makeOrphan(node)
+    node = sinkSide
+    while (parent[node] !== TERMINAL) {
+      const e = parent[node]
+      capacity[e] -= bottleneck
+      capacity[e ^ 1] += bottleneck
+      const parentNode = to[e]
+      if (capacity[e] === 0) makeOrphan(node)
+      node = parentNode
+    }
+    terminal[node] += bottleneck
+    if (terminal[node] === 0) makeOrphan(node)
+
+    // Adopt orphans: reattach each to a tree node that still reaches its
+    // terminal, preferring the shortest route, or free it
+    time++
+    while (orphans.length > 0) {
+      const orphan = orphans.pop()!
+      const orphanTree = tree[orphan]
+      let bestEdge = NO_PARENT
+      let bestDistance = Infinity
+
+      for (let e = head[orphan]; e !== -1; e = next[e]) {
+        const residual = orphanTree === SOURCE_TREE ? capacity[e ^ 1] : capacity[e]
+        const candidate = to[e]
+        if (residual <= 0 || tree[candidate] !== orphanTree) continue
+
+        let steps = 0
+        let walker = candidate
+        for (;;) {
+          if (timestamp[walker] === time) {
+            steps += distance[walker]
+            break
+          }
+          const walkerParent = parent[walker]
+          steps++
+          if (walkerParent === TERMINAL) {
+            timestamp[walker] = time
+            distance[walker] = 1
+            break
+          }
+          if (walkerParent < 0) {
+            steps = Infinity
+            break
+          }
+          walker = to[walkerParent]
+        }
+        if (steps === Infinity) continue
+
+        if (steps < bestDistance) {
+          bestEdge = e
+          bestDistance = steps
+        }
+        // Cache distances along the verified route
+        for (walker = candidate; timestamp[walker] !== time; walker = to[parent[walker]]) {
+          timestamp[walker] = time
+          distance[walker] = steps--
+        }
+      }
+
+      if (bestEdge !== NO_PARENT) {
+        parent[orphan] = bestEdge
+        timestamp[orphan] = time
+        distance[orphan] = bestDistance + 1
+        continue
+      }
+
+      for (let e = head[orphan]; e !== -1; e = next[e]) {
+        const neighbour = to[e]
+        if (tree[neighbour] !== orphanTree) continue
+        const residual = orphanTree === SOURCE_TREE ? capacity[e ^ 1] : capacity[e]
+        if (residual > 0) activate(neighbour)
+        if (parent[neighbour] >= 0 && to[parent[neighbour]] === orphan) makeOrphan(neighbour)
+      }
+      tree[orphan] = 0
+      parent[orphan] = NO_PARENT
+    }
+  }
+
+  return tree.map(value => (value === SOURCE_TREE ? 1 : 0))
+}
+
+// Bring the working resolution cut back to the photo: bilinear upsampling
+// smooths the staircase, edge refinement snaps it to the photo, and the
+// scribbles are enforced at full resolution
+const upsampleRegion = (
+  region: Uint8Array,
+  image: globalThis.ImageData,
+  factor: number,
+  lowWidth: number,
+  lowHeight: number,
+  scribbles: Uint8Array
+): Uint8Array => {
+  const { width, height } = image
+  let mask = new Uint8Array(width * height)
+
+  for (let y = 0; y < height; y++) {
+    const lowY = Math.min(lowHeight - 1, Math.max(0, (y + 0.5) / factor - 0.5))
+    const y0 = Math.floor(lowY)
+    const y1 = Math.min(lowHeight - 1, y0 + 1)
+    const ty = lowY - y0
+    for (let x = 0; x < width; x++) {
+      const lowX = Math.min(lowWidth - 1, Math.max(0, (x + 0.5) / factor - 0.5))
+      const x0 = Math.floor(lowX)
+      const x1 = Math.min(lowWidth - 1, x0 + 1)
+      const tx = lowX - x0
+      const top = region[y0 * lowWidth + x0] * (1 - tx) + region[y0 * lowWidth + x1] * tx
+      const bottom = region[y1 * lowWidth + x0] * (1 - tx) + region[y1 * lowWidth + x1] * tx
+      mask[y * width + x] = top * (1 - ty) + bottom * ty >= 0.5 ? 1 : 0
+    }
+  }
+
+  if (factor > 1) {
+    const refined = refineMaskEdges(
+      { data: mask, width, height, classId: 1, className: 'scribble', confidence: 1 },
+      image,
+      { strength: Math.min(1, (factor * 60) / Math.max(width, height)) }
+    )
+    mask = refined.data
+  }
+
+  for (let i = 0; i < mask.length; i++) {
+    if (scribbles[i] === SCRIBBLE_FOREGROUND) mask[i] = 1
+    else if (scribbles[i] === SCRIBBLE_BACKGROUND) mask[i] = 0
+  }
+
+  return mask
+}
@@ -0,0 +1,271 @@
+import { SegmentationClass, SegmentationMask, SegmentationResult } from '../services/segmentation/types'
+import { SceneProfileId } from '../services/segmentation/profiles'
+import { ColorScheme, HistoryItem, InstanceRef, Selection } from '../types'
+
+// The parts of the editing session that undo and redo restore
+export interface HistoryDocument {
+  segmentation: SegmentationResult | null
+  selectedAreas: number[]
+  selectedInstances: InstanceRef[]
+  colorScheme: ColorScheme
+  selections: Selection[]
+  classes: SegmentationClass[]
+  sceneProfile: SceneProfileId
+}
+
+type DocumentFields = Omit<HistoryDocument, 'segmentation'>
+
+// Pixel changes to one class mask. Small edits keep only the changed pixels;
+// edits touching much of the mask keep both versions whole.
+interface MaskDelta {
+  classId: number
+  before: SegmentationMask | null // Mask without its data; null when the class had no mask
+  after: SegmentationMask | null
+  indices: Uint32Array | null // Changed pixels, or null when the values are whole masks
+  beforeValues: Uint8Array
+  afterValues: Uint8Array
+}
+
+// The segmentation result with its masks left out; they live in the deltas
+interface SegmentationShell {
+  result: SegmentationResult
+  maskOrder: number[] // Class ids in mask order
+}
+
+// What a HistoryItem's data holds: enough to move the session either way
+interface HistoryCommand {
+  before: Partial<DocumentFields>
+  after: Partial<DocumentFields>
+  segmentation: { before: SegmentationShell | null; after: SegmentationShell | null } | null
+  masks: MaskDelta[]
+  mergeKey?: string
+  size: number // Bytes held on to by the mask deltas
+}
+
+// The oldest steps are dropped past either limit
+const MAX_HISTORY_ITEMS = 100
+const MAX_HISTORY_BYTES = 64 * 1024 * 1024
+// Edits sharing a merge key this close together (ms) become one step, so
+// dragging a slider or a polygon vertex doesn't flood the history
+const MERGE_WINDOW = 750
+// A sparse delta stores an index and two values per changed pixel, a whole
+// copy two values per pixel; past a third of the mask whole copies are cheaper
+const SPARSE_LIMIT = 1 / 3
+
+const DOCUMENT_FIELDS: (keyof DocumentFields)[] = [
+  'selectedAreas',
+  'selectedInstances',
+  'colorScheme',
+  'selections',
+  'classes',
+  'sceneProfile'
+]
+
+const NO_PIXELS = new Uint8Array(0)
+
+let nextItemId = 0
+
+// Add an edit to the history. Steps that were undone are dropped, an edit
+// continuing the last step (same merge key, within MERGE_WINDOW) is folded
+// into it, and the oldest steps go once the history is over budget.
+export const recordHistory = (
+  history: HistoryItem[],
+  historyIndex: number,
+  action: string,
+  before: HistoryDocument,
+  after: HistoryDocument,
+  mergeKey?: string
+): { history: HistoryItem[]; historyIndex: number } => {
+  const items = history.slice(0, historyIndex)
+  const last = items[items.length - 1]
+  const now = Date.now()
+
+  let item: HistoryItem | null
+  if (
+    last &&
+    mergeKey !== undefined &&
+    historyIndex === history.length &&
+    getCommand(last).mergeKey === mergeKey &&
+    now - last.timestamp <= MERGE_WINDOW
+  ) {
+    items.pop()
+    item = createHistoryItem(last.action, applyHistoryItem(before, last, 'before'), after, now, mergeKey)
+  } else {
+    item = createHistoryItem(action, before, after, now, mergeKey)
+  }
+
+  if (item) items.push(item)
+  const trimmed = trimHistory(items)
+  return { history: trimmed, historyIndex: trimmed.length }
+}
+
+// The session as it was before ('before') or after ('after') a step,
+// given the session on the other side of it
+export const applyHistoryItem = (
+  document: HistoryDocument,
+  item: HistoryItem,
+  side: 'before' | 'after'
+): HistoryDocument => {
+  const command = getCommand(item)
+  let segmentation = document.segmentation
+
+  if (command.segmentation) {
+    const shell = command.segmentation[side]
+    if (shell) {
+      const current = document.segmentation?.masks ?? []
+      const masks = shell.maskOrder.flatMap(classId => {
+        const mask = current.find(m => m.classId === classId)
+        const delta = command.masks.find(d => d.classId === classId)
+        const restored = delta ? restoreMask(mask, delta, side) : mask
+        return restored ? [restored] : []
+      })
+      segmentation = { ...shell.result, masks }
+    } else {
+      segmentation = null
+    }
+  }
+
+  return { ...document, ...command[side], segmentation }
+}
+
+// Bytes of mask data a step keeps alive
+export const getHistoryItemSize = (item: HistoryItem): number => getCommand(item).size
+
+// Diff two sessions into a step; null when nothing changed
+function createHistoryItem(
+  action: string,
+  before: HistoryDocument,
+  after: HistoryDocument,
+  timestamp: number,
+  mergeKey?: string
+): HistoryItem | null {
+  const fields = DOCUMENT_FIELDS.filter(field => before[field] !== after[field])
+  const segmentationChanged = before.segmentation !== after.segmentation
+  if (fields.length === 0 && !segmentationChanged) return null
+
+  const masks: MaskDelta[] = []
+  if (segmentationChanged) {
+    const beforeMasks = before.segmentation?.masks ?? []
+    const afterMasks = after.segmentation?.masks ?? []
+    const classIds = new Set([...beforeMasks, ...afterMasks].map(mask => mask.classId))
+    for (const classId of classIds) {
+      const beforeMask = beforeMasks.find(m => m.classId === classId)
+      const afterMask = afterMasks.find(m => m.classId === classId)
+      if (beforeMask !== afterMask) {
+        masks.push(createMaskDelta(classId, beforeMask, afterMask))
+      }
+    }
+  }
+
+  const command: HistoryCommand = {
+    before: Object.fromEntries(fields.map(field => [field, before[field]])),
+    after: Object.fromEntries(fields.map(field => [field, after[field]])),
+    segmentation: segmentationChanged
+      ? { before: toShell(before.segmentation), after: toShell(after.segmentation) }
+      : null,
+    masks,
+    mergeKey,
+    size: masks.reduce((total, delta) => total + getDeltaSize(delta), 0)
+  }
+
+  return {
+    id: `${timestamp}-${nextItemId++}`,
+    timestamp,
+    action,
+    data: command
+  }
+}
+
+function createMaskDelta(
+  classId: number,
+  before: SegmentationMask | undefined,
+  after: SegmentationMask | undefined
+): MaskDelta {
+  const length = (after ?? before)!.data.length
+  const beforeData = before?.data ?? new Uint8Array(length)
+  const afterData = after?.data ?? new Uint8Array(length)
+
+  let changed = 0
+  for (let i = 0; i < length; i++) {
+    if (beforeData[i] !== afterData[i]) changed++
+  }
+
+  const delta = {
+    classId,
+    before: before ? { ...before, data: NO_PIXELS } : null,
+    after: after ? { ...after, data: NO_PIXELS } : null
+  }
+
+  // Masks are never edited in place, so whole versions can be shared
+  if (changed > length * SPARSE_LIMIT) {
+    return {
+      ...delta,
+      indices: null,
+      beforeValues: before?.data ?? NO_PIXELS,
+      afterValues: after?.data ?? NO_PIXELS
+    }
+  }
+
+  const indices = new Uint32Array(changed)
+  const beforeValues = new Uint8Array(changed)
+  const afterValues = new Uint8Array(changed)
+  for (let i = 0, j = 0; i < length; i++) {
+    if (beforeData[i] !== afterData[i]) {
+      indices[j] = i
+      beforeValues[j] = beforeData[i]
+      afterValues[j] = afterData[i]
+      j++
+    }
+  }
+  return { ...delta, indices, beforeValues, afterValues }
+}
+
+// Rebuild one side of a delta from the mask on the other side
+function restoreMask(
+  current: SegmentationMask | undefined,
+  delta: MaskDelta,
+  side: 'before' | 'after'
+): SegmentationMask | null {
+  const info = delta[side]
+  if (!info) return null
+
+  const values = side === 'before' ? delta.beforeValues : delta.afterValues
+  if (!delta.indices) return { ...info, data: values }
+
+  const data = current ? current.data.slice() : new Uint8Array(info.width * info.height)
+  for (let i = 0; i < delta.indices.length; i++) {
+    data[delta.indices[i]] = values[i]
+  }
+  return { ...info, data }
+}
+
+function toShell(segmentation: SegmentationResult | null): SegmentationShell | null {
+  if (!segmentation) return null
+  return {
+    result: { ...segmentation, masks: [] },
+    maskOrder: segmentation.masks.map(mask => mask.classId)
+  }
+}
+
+function getDeltaSize(delta: MaskDelta): number {
+  return (delta.indices?.byteLength ?? 0) +
+    delta.beforeValues.byteLength +
+    delta.afterValues.byteLength +
+    (delta.before?.alpha?.byteLength ?? 0) +
+    (delta.after?.alpha?.byteLength ?? 0)
+}
+
+// Drop the oldest steps until the history fits its budget; the newest step is always kept
+function trimHistory(items: HistoryItem[]): HistoryItem[] {
+  let size = items.reduce((total, item) => total + getHistoryItemSize(item), 0)
+  let start = 0
+  while (items.length - start > 1 && (items.length - start > MAX_HISTORY_ITEMS || size > MAX_HISTORY_BYTES)) {
+    size -= getHistoryItemSize(items[start])
+    start++
+  }
+  return start === 0 ? items : items.slice(start)
+}
+
+function getCommand(item: HistoryItem): HistoryCommand {
+  return item.data as HistoryCommand
+}
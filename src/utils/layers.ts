@@ -0,0 +1,72 @@
+import { SegmentationClass, SegmentationMask } from '../services/segmentation/types'
+import { ColorScheme, LayerSource, Selection } from '../types'
+import { getInstanceMask, getMaskInstances } from './maskUtils'
+import { getRegionKey } from './colorScheme'
+
+// A layer together with the mask it draws
+export interface LayerContent {
+  layer: Selection
+  mask: SegmentationMask
+}
+
+const createLayer = (
+  classId: number,
+  instanceId: number | undefined,
+  source: LayerSource,
+  classes: SegmentationClass[]
+): Selection => {
+  const segClass = classes.find(c => c.id === classId)
+  const displayName = segClass?.displayName ?? `Class ${classId}`
+  return {
+    id: getRegionKey(classId, instanceId),
+    name: instanceId ? `${displayName} #${instanceId}` : displayName,
+    points: [],
+    type: segClass?.name ?? 'background',
+    classId,
+    instanceId,
+    source: instanceId ? 'instance' : source,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    blendMode: 'normal'
+  }
+}
+
+// Bring the layer stack in line with the current masks: one layer per class
+// mask and one per detected piece of it. Existing layers keep their place and
+// settings, layers whose mask or piece is gone are dropped, and new ones are
+// stacked on top (pieces above classes). Colors are mirrored from the scheme.
+export const syncLayers = (
+  layers: Selection[],
+  masks: SegmentationMask[],
+  classes: SegmentationClass[],
+  colorScheme: ColorScheme,
+  source: LayerSource
+): Selection[] => {
+  const wanted = [
+    ...masks.map(mask => ({ classId: mask.classId, instanceId: undefined as number | undefined })),
+    ...masks.flatMap(mask => getMaskInstances(mask).components.map((_, i) => ({ classId: mask.classId, instanceId: i + 1 })))
+  ]
+  const wantedKeys = new Set(wanted.map(({ classId, instanceId }) => getRegionKey(classId, instanceId)))
+
+  const kept = layers.filter(layer => wantedKeys.has(layer.id))
+  const added = wanted
+    .filter(({ classId, instanceId }) => !kept.some(layer => layer.id === getRegionKey(classId, instanceId)))
+    .map(({ classId, instanceId }) => createLayer(classId, instanceId, source, classes))
+
+  return [...kept, ...added].map(layer => ({ ...layer, color: colorScheme[layer.id]?.color }))
+}
+
+// Whether edits to a class mask are blocked. Editing a mask renumbers its
+// pieces, so a locked piece protects its whole class.
+export const isClassLocked = (layers: Selection[], classId: number): boolean =>
+  layers.some(layer => layer.classId === classId && layer.locked)
+
+// Masks for a layer stack, bottom to top; layers without a mask are skipped,
+// as are uncolored pieces, which draw nothing and would each cost a full-size mask
+export const resolveLayers = (layers: Selection[], masks: SegmentationMask[]): LayerContent[] =>
+  layers.flatMap(layer => {
+    const mask = masks.find(m => m.classId === layer.classId)
+    if (!mask || (layer.instanceId && !layer.color)) return []
+    return [{ layer, mask: layer.instanceId ? getInstanceMask(mask, layer.instanceId) : mask }]
+  })
@@ -0,0 +1,266 @@
+// Intelligent scissors (Mortensen & Barrett 1995): a least-cost path between
+// two points where stepping along strong photo edges is cheap
+
+export interface EdgeCostMap {
+  cost: Float32Array // Per working pixel, low on strong edges
+  width: number
+  height: number
+  factor: number // Full resolution pixels per working pixel along each axis
+}
+
+// Paths are searched on at most about this many pixels so the live wire keeps
+// up with the cursor on large photos
+const MAX_COST_MAP_PIXELS = 1024 * 1024
+// Gradients at or above this percentile count as full strength edges, so a
+// few very hard edges don't make every other edge look weak
+const EDGE_PERCENTILE = 0.95
+// Flat cost per step so the path doesn't wander through textured areas
+const BASE_COST = 0.05
+// Padding (working pixels) around the two endpoints that bounds the search
+const MIN_SEARCH_MARGIN = 16
+const SEARCH_MARGIN_RATIO = 0.35
+// Search budget (working pixels) for the live wire, which is searched again on
+// the main thread every frame the cursor moves
+export const LIVE_WIRE_SEARCH_PIXELS = 256 * 256
+
+// Edge strength is the strongest Sobel response over the RGB channels, so
+// color edges between surfaces of similar brightness still attract the path
+export const computeEdgeCostMap = (image: globalThis.ImageData): EdgeCostMap => {
+  const factor = Math.max(1, Math.ceil(Math.sqrt((image.width * image.height) / MAX_COST_MAP_PIXELS)))
+  const width = Math.ceil(image.width / factor)
+  const height = Math.ceil(image.height / factor)
+  const channels = [0, 1, 2].map(channel => downsampleChannel(image, channel, factor, width, height))
+
+  const magnitude = new Float32Array(width * height)
+  let maxMagnitude = 0
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width
+    const row = y * width
+    const down = Math.min(height - 1, y + 1) * width
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1)
+      const right = Math.min(width - 1, x + 1)
+      let strongest = 0
+      for (const c of channels) {
+        const gx = (c[up + right] + 2 * c[row + right] + c[down + right]) -
+          (c[up + left] + 2 * c[row + left] + c[down + left])
+        const gy = (c[down + left] + 2 * c[down + x] + c[down + right]) -
+          (c[up + left] + 2 * c[up + x] + c[up + right])
+        strongest = Math.max(strongest, gx * gx + gy * gy)
+      }
+      magnitude[row + x] = Math.sqrt(strongest)
+      maxMagnitude = Math.max(maxMagnitude, magnitude[row + x])
+    }
+  }
+
+  const edgeStrength = getPercentile(magnitude, maxMagnitude, EDGE_PERCENTILE) || 1
+  const cost = new Float32Array(width * height)
+  for (let i = 0; i < cost.length; i++) {
+    cost[i] = BASE_COST + 1 - Math.min(1, magnitude[i] / edgeStrength)
+  }
+
+  return { cost, width, height, factor }
+}
+
+// Least-cost 8-connected path between two image-space points, returned as
+// flat image-space points from start to end. The search is limited to a box
+// around both points, which is where the wire is expected to run; when even a
+// tight box is over maxSearchPixels the points are joined by a straight line.
+export const findEdgePath = (
+  costMap: EdgeCostMap,
+  startX: number,
+  startY: number,
+  endX: number,
+  endY: number,
+  maxSearchPixels = Infinity
+): number[] => {
+  const { cost, width, factor } = costMap
+  const toCell = (value: number, size: number) => Math.min(size - 1, Math.max(0, Math.floor(value / factor)))
+  const sx = toCell(startX, costMap.width)
+  const sy = toCell(startY, costMap.height)
+  const ex = toCell(endX, costMap.width)
+  const ey = toCell(endY, costMap.height)
+
+  const margin = Math.round(Math.max(MIN_SEARCH_MARGIN, Math.hypot(ex - sx, ey - sy) * SEARCH_MARGIN_RATIO))
+  let box = getSearchBox(costMap, sx, sy, ex, ey, margin)
+  if (box.width * box.height > maxSearchPixels) {
+    box = getSearchBox(costMap, sx, sy, ex, ey, MIN_SEARCH_MARGIN)
+    if (box.width * box.height > maxSearchPixels) return [startX, startY, endX, endY]
+  }
+  const { left, top, width: boxWidth, height: boxHeight } = box
+
+  // Box-local indices from here on
+  const start = (sy - top) * boxWidth + (sx - left)
+  const end = (ey - top) * boxWidth + (ex - left)
+  const distance = new Float32Array(boxWidth * boxHeight).fill(Infinity)
+  const parent = new Int32Array(boxWidth * boxHeight).fill(-1)
+  const done = new Uint8Array(boxWidth * boxHeight)
+  const heap = new MinHeap()
+  const stepCost = (i: number) => cost[(top + Math.floor(i / boxWidth)) * width + left + (i % boxWidth)]
+
+  distance[start] = 0
+  heap.push(start, 0)
+
+  while (heap.size > 0) {
+    const node = heap.pop()
+    if (done[node]) continue // Stale entry, a shorter route was already settled
+    done[node] = 1
+    if (node === end) break
+
+    const x = node % boxWidth
+    const y = (node - x) / boxWidth
+    const nodeCost = stepCost(node)
+    for (let dy = -1; dy <= 1; dy++) {
+      const ny = y + dy
+      if (ny < 0 || ny >= boxHeight) continue
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx
+        if ((dx === 0 && dy === 0) || nx < 0 || nx >= boxWidth) continue
+
+        const neighbour = ny * boxWidth + nx
+        if (done[neighbour]) continue
+        const length = dx !== 0 && dy !== 0 ? Math.SQRT2 : 1
+        const candidate = distance[node] + length * (nodeCost + stepCost(neighbour)) / 2
+        if (candidate < distance[neighbour]) {
+          distance[neighbour] = candidate
+          parent[neighbour] = node
+          heap.push(neighbour, candidate)
+        }
+      }
+    }
+  }
+
+  // Walk back from the end, keeping only the corners of the path
+  const cells: number[] = []
+  for (let node = end; node !== -1; node = parent[node]) {
+    cells.push(node)
+  }
+  cells.reverse()
+
+  const points: number[] = []
+  for (let i = 0; i < cells.length; i++) {
+    if (i > 0 && i < cells.length - 1 && isStraight(cells[i - 1], cells[i], cells[i + 1])) continue
+    const x = cells[i] % boxWidth
+    const y = (cells[i] - x) / boxWidth
+    points.push((left + x + 0.5) * factor, (top + y + 0.5) * factor)
+  }
+  return points
+}
+
+// Binary min-heap of node indices keyed by path cost; decrease-key is handled
+// by pushing again and skipping stale entries
+class MinHeap {
+  private nodes = new Int32Array(1024)
+  private keys = new Float64Array(1024)
+  size = 0
+
+  push(node: number, key: number) {
+    if (this.size === this.nodes.length) {
+      const nodes = new Int32Array(this.size * 2)
+      const keys = new Float64Array(this.size * 2)
+      nodes.set(this.nodes)
+      keys.set(this.keys)
+      this.nodes = nodes
+      this.keys = keys
+    }
+
+    let i = this.size++
+    while (i > 0) {
+      const up = (i - 1) >> 1
+      if (this.keys[up] <= key) break
+      this.nodes[i] = this.nodes[up]
+      this.keys[i] = this.keys[up]
+      i = up
+    }
+    this.nodes[i] = node
+    this.keys[i] = key
+  }
+
+  pop(): number {
+    const top = this.nodes[0]
+    const node = this.nodes[--this.size]
+    const key = this.keys[this.size]
+
+    let i = 0
+    while (true) {
+      let child = 2 * i + 1
+      if (child >= this.size) break
+      if (child + 1 < this.size && this.keys[child + 1] < this.keys[child]) child++
+      if (this.keys[child] >= key) break
+      this.nodes[i] = this.nodes[child]
+      this.keys[i] = this.keys[child]
+      i = child
+    }
+    this.nodes[i] = node
+    this.keys[i] = key
+
+    return top
+  }
+}
+
+// Working pixels within margin of two cells, clipped to the map
+function getSearchBox(
+  costMap: EdgeCostMap,
+  sx: number,
+  sy: number,
+  ex: number,
+  ey: number,
+  margin: number
+): { left: number; top: number; width: number; height: number } {
+  const left = Math.max(0, Math.min(sx, ex) - margin)
+  const top = Math.max(0, Math.min(sy, ey) - margin)
+  return {
+    left,
+    top,
+    width: Math.min(costMap.width - 1, Math.max(sx, ex) + margin) - left + 1,
+    height: Math.min(costMap.height - 1, Math.max(sy, ey) + margin) - top + 1
+  }
+}
+
+// Box average of one RGBA channel onto the working grid, scaled to 0-1
+function downsampleChannel(
+  image: globalThis.ImageData,
+  channel: number,
+  factor: number,
+  width: number,
+  height: number
+): Float32Array {
+  const sums = new Float32Array(width * height)
+  const counts = new Uint16Array(width * height)
+  for (let y = 0; y < image.height; y++) {
+    const row = Math.floor(y / factor) * width
+    for (let x = 0; x < image.width; x++) {
+      const cell = row + Math.floor(x / factor)
+      sums[cell] += image.data[(y * image.width + x) * 4 + channel]
+      counts[cell]++
+    }
+  }
+
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] /= counts[i] * 255
+  }
+  return sums
+}
+
+// Approximate percentile from a 256-bin histogram over 0..max
+function getPercentile(values: Float32Array, max: number, percentile: number): number {
+  if (max === 0) return 0
+
+  const bins = new Uint32Array(256)
+  for (let i = 0; i < values.length; i++) {
+    bins[Math.min(255, Math.floor((values[i] / max) * 256))]++
+  }
+
+  const target = values.length * percentile
+  let seen = 0
+  for (let bin = 0; bin < 256; bin++) {
+    seen += bins[bin]
+    if (seen >= target) return ((bin + 1) / 256) * max
+  }
+  return max
+}
+
+// Whether three consecutive box cells continue in the same direction
+function isStraight(a: number, b: number, c: number): boolean {
+  return b - a === c - b
+}
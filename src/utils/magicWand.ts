@@ -0,0 +1,73 @@
+import { deltaE, rgbToLab } from './colorUtils'
+
+export interface MagicWandOptions {
+  tolerance: number // Maximum CIELAB color difference (delta E) from the clicked pixel
+  contiguous: boolean // False selects every similar pixel in the image ("select similar")
+}
+
+// Select pixels whose color is perceptually close to the clicked pixel.
+// Returns a 0/1 mask at image resolution.
+export const magicWandSelect = (
+  imageData: globalThis.ImageData,
+  seedX: number,
+  seedY: number,
+  options: MagicWandOptions
+): Uint8Array => {
+  const { width, height, data } = imageData
+  const mask = new Uint8Array(width * height)
+
+  const x0 = Math.floor(seedX)
+  const y0 = Math.floor(seedY)
+  if (x0 < 0 || x0 >= width || y0 < 0 || y0 >= height) {
+    return mask
+  }
+
+  const seedIndex = (y0 * width + x0) * 4
+  const seedLab = rgbToLab(data[seedIndex], data[seedIndex + 1], data[seedIndex + 2])
+
+  const isSimilar = (i: number) => {
+    const p = i * 4
+    return deltaE(rgbToLab(data[p], data[p + 1], data[p + 2]), seedLab) <= options.tolerance
+  }
+
+  if (!options.contiguous) {
+    for (let i = 0; i < mask.length; i++) {
+      if (isSimilar(i)) mask[i] = 1
+    }
+    return mask
+  }
+
+  // 4-connected flood fill; rejected pixels are marked 2 so each is only tested once
+  const stack = new Int32Array(width * height)
+  let stackSize = 0
+  stack[stackSize++] = y0 * width + x0
+  mask[y0 * width + x0] = 1
+
+  while (stackSize > 0) {
+    const i = stack[--stackSize]
+    const x = i % width
+
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      i >= width ? i - width : -1,
+      i < width * (height - 1) ? i + width : -1
+    ]
+
+    for (const n of neighbours) {
+      if (n < 0 || mask[n] !== 0) continue
+      if (isSimilar(n)) {
+        mask[n] = 1
+        stack[stackSize++] = n
+      } else {
+        mask[n] = 2
+      }
+    }
+  }
+
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] === 2) mask[i] = 0
+  }
+
+  return mask
+}
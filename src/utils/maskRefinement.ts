@@ -0,0 +1,267 @@
+import { SegmentationMask } from '../services/segmentation/types'
+
+export interface RefineEdgesOptions {
+  strength: number // 0-1, how far boundaries may move to meet edges in the photo
+}
+
+// Filters run on at most about this many pixels and their results are
+// upsampled ("fast guided filter"), which keeps large photos cheap
+const MAX_WORKING_PIXELS = 512 * 512
+// Regularisation on 0-1 RGB; smaller values follow weaker photo edges
+const GUIDED_FILTER_EPSILON = 1e-3
+// Inside and outside colors closer than this (squared RGB distance) can't be told apart
+const MIN_COLOR_SEPARATION = 1e-3
+
+interface WorkingGrid {
+  width: number
+  height: number
+  factor: number // Full resolution pixels per working pixel along each axis
+  lowWidth: number
+  lowHeight: number
+}
+
+interface Guide {
+  r: Float32Array
+  g: Float32Array
+  b: Float32Array
+}
+
+// Snap a mask to the photo's edges. Pixels near the boundary are first
+// re-estimated from the local inside and outside colors, then a color guided
+// filter (He et al. 2010) smooths the result along the photo's edges.
+// Returns a copy with soft 0-255 alpha; data is re-thresholded at half coverage.
+export const refineMaskEdges = (
+  mask: SegmentationMask,
+  image: globalThis.ImageData,
+  options: RefineEdgesOptions
+): SegmentationMask => {
+  const { width, height } = mask
+  const factor = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_WORKING_PIXELS)))
+  const grid: WorkingGrid = {
+    width,
+    height,
+    factor,
+    lowWidth: Math.ceil(width / factor),
+    lowHeight: Math.ceil(height / factor)
+  }
+
+  const bandRadius = Math.max(2, Math.round(options.strength * Math.max(width, height) / 60))
+  const lowBandRadius = Math.max(1, Math.round(bandRadius / factor))
+
+  const coverage = new Float32Array(width * height)
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = mask.alpha ? mask.alpha[i] / 255 : (mask.data[i] > 0 ? 1 : 0)
+  }
+
+  const guide: Guide = {
+    r: downsample(grid, i => image.data[i * 4] / 255),
+    g: downsample(grid, i => image.data[i * 4 + 1] / 255),
+    b: downsample(grid, i => image.data[i * 4 + 2] / 255)
+  }
+
+  const snapped = snapToLocalColors(image, coverage, guide, grid, lowBandRadius)
+  const filtered = guidedFilter(image, guide, downsample(grid, i => snapped[i]), grid, Math.max(1, Math.round(lowBandRadius / 2)))
+
+  const alpha = new Uint8Array(width * height)
+  const data = new Uint8Array(width * height)
+  for (let i = 0; i < filtered.length; i++) {
+    alpha[i] = Math.round(Math.max(0, Math.min(1, filtered[i])) * 255)
+    if (alpha[i] >= 128) {
+      data[i] = mask.classId
+    }
+  }
+
+  return { ...mask, data, alpha }
+}
+
+// Trimap-style pass: pixels within the band of the boundary take the alpha that
+// best explains their color as a mix of the nearby inside and outside colors
+const snapToLocalColors = (
+  image: globalThis.ImageData,
+  coverage: Float32Array,
+  guide: Guide,
+  grid: WorkingGrid,
+  bandRadius: number
+): Float32Array => {
+  const { lowWidth, lowHeight } = grid
+  const lowCoverage = downsample(grid, i => coverage[i])
+  const bandCoverage = boxMean(lowCoverage, lowWidth, lowHeight, bandRadius)
+
+  // Definitely inside / outside cells, and their mean colors over a wider window
+  const inside = bandCoverage.map(value => (value >= 0.99 ? 1 : 0))
+  const outside = bandCoverage.map(value => (value <= 0.01 ? 1 : 0))
+  const windowRadius = bandRadius * 3 + 1
+  const meanColor = (weights: Float32Array) => {
+    const weight = boxMean(weights, lowWidth, lowHeight, windowRadius)
+    const channel = (values: Float32Array) =>
+      boxMean(values.map((value, i) => value * weights[i]), lowWidth, lowHeight, windowRadius)
+        .map((sum, i) => (weight[i] > 0 ? sum / weight[i] : 0))
+    return { weight, r: channel(guide.r), g: channel(guide.g), b: channel(guide.b) }
+  }
+  const foreground = meanColor(inside)
+  const background = meanColor(outside)
+
+  const snapped = coverage.slice()
+  for (let y = 0; y < grid.height; y++) {
+    const lowRow = Math.floor(y / grid.factor) * lowWidth
+    for (let x = 0; x < grid.width; x++) {
+      const low = lowRow + Math.floor(x / grid.factor)
+      if (inside[low] || outside[low] || foreground.weight[low] === 0 || background.weight[low] === 0) continue
+
+      const dr = foreground.r[low] - background.r[low]
+      const dg = foreground.g[low] - background.g[low]
+      const db = foreground.b[low] - background.b[low]
+      const separation = dr * dr + dg * dg + db * db
+      if (separation < MIN_COLOR_SEPARATION) continue
+
+      const i = y * grid.width + x
+      const projection = (image.data[i * 4] / 255 - background.r[low]) * dr
+        + (image.data[i * 4 + 1] / 255 - background.g[low]) * dg
+        + (image.data[i * 4 + 2] / 255 - background.b[low]) * db
+      snapped[i] = Math.max(0, Math.min(1, projection / separation))
+    }
+  }
+
+  return snapped
+}
+
+// Fast color guided filter: fit p ≈ a·I + b per window at working resolution,
+// average the coefficients, then apply them to the full resolution guide
+const guidedFilter = (
+  image: globalThis.ImageData,
+  guide: Guide,
+  input: Float32Array,
+  grid: WorkingGrid,
+  radius: number
+): Float32Array => {
+  const { lowWidth, lowHeight, factor } = grid
+  const lowSize = lowWidth * lowHeight
+  const mean = (values: Float32Array) => boxMean(values, lowWidth, lowHeight, radius)
+  const product = (first: Float32Array, second: Float32Array) => first.map((value, i) => value * second[i])
+
+  const meanR = mean(guide.r)
+  const meanG = mean(guide.g)
+  const meanB = mean(guide.b)
+  const meanP = mean(input)
+  const meanRP = mean(product(guide.r, input))
+  const meanGP = mean(product(guide.g, input))
+  const meanBP = mean(product(guide.b, input))
+  const meanRR = mean(product(guide.r, guide.r))
+  const meanRG = mean(product(guide.r, guide.g))
+  const meanRB = mean(product(guide.r, guide.b))
+  const meanGG = mean(product(guide.g, guide.g))
+  const meanGB = mean(product(guide.g, guide.b))
+  const meanBB = mean(product(guide.b, guide.b))
+
+  const coefR = new Float32Array(lowSize)
+  const coefG = new Float32Array(lowSize)
+  const coefB = new Float32Array(lowSize)
+  const offset = new Float32Array(lowSize)
+  for (let i = 0; i < lowSize; i++) {
+    const covRP = meanRP[i] - meanR[i] * meanP[i]
+    const covGP = meanGP[i] - meanG[i] * meanP[i]
+    const covBP = meanBP[i] - meanB[i] * meanP[i]
+
+    const rr = meanRR[i] - meanR[i] * meanR[i] + GUIDED_FILTER_EPSILON
+    const rg = meanRG[i] - meanR[i] * meanG[i]
+    const rb = meanRB[i] - meanR[i] * meanB[i]
+    const gg = meanGG[i] - meanG[i] * meanG[i] + GUIDED_FILTER_EPSILON
+    const gb = meanGB[i] - meanG[i] * meanB[i]
+    const bb = meanBB[i] - meanB[i] * meanB[i] + GUIDED_FILTER_EPSILON
+
+    // Inverse of the symmetric 3x3 guide covariance via cofactors
+    const invRR = gg * bb - gb * gb
+    const invRG = gb * rb - rg * bb
+    const invRB = rg * gb - gg * rb
+    const invGG = rr * bb - rb * rb
+    const invGB = rb * rg - rr * gb
+    const invBB = rr * gg - rg * rg
+    const determinant = rr * invRR + rg * invRG + rb * invRB
+
+    coefR[i] = (invRR * covRP + invRG * covGP + invRB * covBP) / determinant
+    coefG[i] = (invRG * covRP + invGG * covGP + invGB * covBP) / determinant
+    coefB[i] = (invRB * covRP + invGB * covGP + invBB * covBP) / determinant
+    offset[i] = meanP[i] - coefR[i] * meanR[i] - coefG[i] * meanG[i] - coefB[i] * meanB[i]
+  }
+
+  const meanCoefR = mean(coefR)
+  const meanCoefG = mean(coefG)
+  const meanCoefB = mean(coefB)
+  const meanOffset = mean(offset)
+
+  const output = new Float32Array(grid.width * grid.height)
+  for (let y = 0; y < grid.height; y++) {
+    const lowY = Math.min(lowHeight - 1, Math.max(0, (y + 0.5) / factor - 0.5))
+    const y0 = Math.floor(lowY)
+    const y1 = Math.min(lowHeight - 1, y0 + 1)
+    const ty = lowY - y0
+
+    for (let x = 0; x < grid.width; x++) {
+      const lowX = Math.min(lowWidth - 1, Math.max(0, (x + 0.5) / factor - 0.5))
+      const x0 = Math.floor(lowX)
+      const x1 = Math.min(lowWidth - 1, x0 + 1)
+      const tx = lowX - x0
+
+      // Bilinear upsampling of the averaged coefficients
+      const sample = (values: Float32Array) => {
+        const top = values[y0 * lowWidth + x0] * (1 - tx) + values[y0 * lowWidth + x1] * tx
+        const bottom = values[y1 * lowWidth + x0] * (1 - tx) + values[y1 * lowWidth + x1] * tx
+        return top * (1 - ty) + bottom * ty
+      }
+
+      const i = y * grid.width + x
+      output[i] = sample(meanCoefR) * (image.data[i * 4] / 255)
+        + sample(meanCoefG) * (image.data[i * 4 + 1] / 255)
+        + sample(meanCoefB) * (image.data[i * 4 + 2] / 255)
+        + sample(meanOffset)
+    }
+  }
+
+  return output
+}
+
+// Box-average a full resolution channel down to the working grid
+const downsample = (grid: WorkingGrid, valueAt: (index: number) => number): Float32Array => {
+  const { width, height, factor, lowWidth, lowHeight } = grid
+  const sums = new Float32Array(lowWidth * lowHeight)
+  const counts = new Uint16Array(lowWidth * lowHeight)
+
+  for (let y = 0; y < height; y++) {
+    const lowRow = Math.floor(y / factor) * lowWidth
+    for (let x = 0; x < width; x++) {
+      const low = lowRow + Math.floor(x / factor)
+      sums[low] += valueAt(y * width + x)
+      counts[low]++
+    }
+  }
+
+  return sums.map((sum, i) => sum / counts[i])
+}
+
+// Mean over a (2r+1)² window clipped at the borders, via separable running sums
+const boxMean = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const horizontal = new Float32Array(values.length)
+  for (let y = 0; y < height; y++) {
+    const row = y * width
+    let sum = 0
+    for (let x = 0; x < Math.min(width, radius); x++) sum += values[row + x]
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) sum += values[row + x + radius]
+      if (x - radius - 1 >= 0) sum -= values[row + x - radius - 1]
+      horizontal[row + x] = sum / (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1)
+    }
+  }
+
+  const result = new Float32Array(values.length)
+  for (let x = 0; x < width; x++) {
+    let sum = 0
+    for (let y = 0; y < Math.min(height, radius); y++) sum += horizontal[y * width + x]
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) sum += horizontal[(y + radius) * width + x]
+      if (y - radius - 1 >= 0) sum -= horizontal[(y - radius - 1) * width + x]
+      result[y * width + x] = sum / (Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1)
+    }
+  }
+
+  return result
+}
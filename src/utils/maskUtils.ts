@@ -0,0 +1,353 @@
+import { SegmentationClass, SegmentationMask } from '../services/segmentation/types'
+import { SelectionMode } from '../types'
+
+// Split a label map (one class id per pixel) into one mask per class.
+// Classes covering less than minCoverage of the image are dropped.
+export const splitCompositeMask = (
+  composite: Uint8Array,
+  width: number,
+  height: number,
+  classes: SegmentationClass[],
+  getConfidence: (classId: number) => number,
+  minCoverage: number = 0
+): SegmentationMask[] => {
+  const pixelCounts = new Uint32Array(256)
+  for (let i = 0; i < composite.length; i++) {
+    pixelCounts[composite[i]]++
+  }
+
+  const masks: SegmentationMask[] = []
+  for (const segClass of classes) {
+    const pixelCount = pixelCounts[segClass.id]
+    if (segClass.id === 0 || pixelCount === 0 || pixelCount <= width * height * minCoverage) {
+      continue
+    }
+
+    const data = new Uint8Array(width * height)
+    for (let i = 0; i < composite.length; i++) {
+      if (composite[i] === segClass.id) {
+        data[i] = segClass.id
+      }
+    }
+
+    masks.push({
+      data,
+      width,
+      height,
+      classId: segClass.id,
+      className: segClass.name,
+      confidence: getConfidence(segClass.id)
+    })
+  }
+
+  return masks
+}
+
+// Nearest-neighbour resample, used to bring low resolution label maps up to image size
+export const resizeMaskNearest = (
+  mask: Uint8Array,
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number
+): Uint8Array => {
+  if (sourceWidth === targetWidth && sourceHeight === targetHeight) {
+    return mask
+  }
+
+  const resized = new Uint8Array(targetWidth * targetHeight)
+  const scaleX = sourceWidth / targetWidth
+  const scaleY = sourceHeight / targetHeight
+
+  for (let y = 0; y < targetHeight; y++) {
+    const sourceRow = Math.min(sourceHeight - 1, Math.floor(y * scaleY)) * sourceWidth
+    for (let x = 0; x < targetWidth; x++) {
+      const sourceX = Math.min(sourceWidth - 1, Math.floor(x * scaleX))
+      resized[y * targetWidth + x] = mask[sourceRow + sourceX]
+    }
+  }
+
+  return resized
+}
+
+export interface MaskComponent {
+  label: number // 1-based, matches the values in ConnectedComponents.labels
+  area: number
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export interface ConnectedComponents {
+  labels: Int32Array // 0 for unselected pixels
+  components: MaskComponent[]
+}
+
+// 4-connected component labelling of every non-zero pixel, using an explicit
+// stack so large regions don't overflow the call stack
+export const labelConnectedComponents = (
+  mask: ArrayLike<number>,
+  width: number,
+  height: number
+): ConnectedComponents => {
+  const labels = new Int32Array(width * height)
+  const components: MaskComponent[] = []
+  const stack = new Int32Array(width * height)
+
+  for (let start = 0; start < labels.length; start++) {
+    if (mask[start] === 0 || labels[start] !== 0) continue
+
+    const label = components.length + 1
+    const component: MaskComponent = {
+      label,
+      area: 0,
+      minX: width,
+      minY: height,
+      maxX: 0,
+      maxY: 0
+    }
+
+    let stackSize = 0
+    stack[stackSize++] = start
+    labels[start] = label
+
+    while (stackSize > 0) {
+      const i = stack[--stackSize]
+      const x = i % width
+      const y = (i - x) / width
+
+      component.area++
+      if (x < component.minX) component.minX = x
+      if (x > component.maxX) component.maxX = x
+      if (y < component.minY) component.minY = y
+      if (y > component.maxY) component.maxY = y
+
+      if (x > 0 && mask[i - 1] !== 0 && labels[i - 1] === 0) {
+        labels[i - 1] = label
+        stack[stackSize++] = i - 1
+      }
+      if (x < width - 1 && mask[i + 1] !== 0 && labels[i + 1] === 0) {
+        labels[i + 1] = label
+        stack[stackSize++] = i + 1
+      }
+      if (y > 0 && mask[i - width] !== 0 && labels[i - width] === 0) {
+        labels[i - width] = label
+        stack[stackSize++] = i - width
+      }
+      if (y < height - 1 && mask[i + width] !== 0 && labels[i + width] === 0) {
+        labels[i + width] = label
+        stack[stackSize++] = i + width
+      }
+    }
+
+    components.push(component)
+  }
+
+  return { labels, components }
+}
+
+// Masks are replaced rather than mutated, so instance labelling can be cached per mask object
+const instanceCache = new WeakMap<SegmentationMask, ConnectedComponents>()
+
+// Number the connected pieces of a class mask (each window, each door)
+export const getMaskInstances = (mask: SegmentationMask): ConnectedComponents => {
+  let instances = instanceCache.get(mask)
+  if (!instances) {
+    instances = labelConnectedComponents(mask.data, mask.width, mask.height)
+    instanceCache.set(mask, instances)
+  }
+  return instances
+}
+
+// Instance label at a pixel, 0 when the class doesn't cover it
+export const getInstanceAt = (mask: SegmentationMask, x: number, y: number): number =>
+  getMaskInstances(mask).labels[y * mask.width + x]
+
+// Cut a class mask down to one instance. Soft alpha is kept only on the
+// instance's own pixels.
+export const getInstanceMask = (mask: SegmentationMask, instanceId: number): SegmentationMask => {
+  const { labels } = getMaskInstances(mask)
+  const data = new Uint8Array(mask.data.length)
+  const alpha = mask.alpha ? new Uint8Array(mask.data.length) : undefined
+
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] === instanceId) {
+      data[i] = mask.classId
+      if (alpha) alpha[i] = mask.alpha![i]
+    }
+  }
+
+  return { ...mask, data, alpha, instanceId }
+}
+
+// Apply a selection to a class mask. Selected pixels are written as classId,
+// matching the SegmentationMask convention.
+export const combineMasks = (
+  target: Uint8Array | null,
+  selection: Uint8Array,
+  mode: SelectionMode,
+  classId: number
+): Uint8Array => {
+  const result = new Uint8Array(selection.length)
+
+  for (let i = 0; i < selection.length; i++) {
+    const inTarget = target !== null && target[i] !== 0
+    const inSelection = selection[i] !== 0
+
+    let selected: boolean
+    switch (mode) {
+      case 'add':
+        selected = inTarget || inSelection
+        break
+      case 'subtract':
+        selected = inTarget && !inSelection
+        break
+      case 'intersect':
+        selected = inTarget && inSelection
+        break
+      default:
+        selected = inSelection
+    }
+
+    result[i] = selected ? classId : 0
+  }
+
+  return result
+}
+
+export type MaskOperation = 'union' | 'subtract' | 'intersect' | 'invert'
+
+const OPERATION_MODES: Record<Exclude<MaskOperation, 'invert'>, SelectionMode> = {
+  union: 'add',
+  subtract: 'subtract',
+  intersect: 'intersect'
+}
+
+// Boolean operation between a class mask and another mask. Invert ignores the
+// target and keeps everything the operand doesn't cover.
+export const applyMaskOperation = (
+  target: Uint8Array | null,
+  operand: Uint8Array,
+  operation: MaskOperation,
+  classId: number
+): Uint8Array => {
+  if (operation !== 'invert') {
+    return combineMasks(target, operand, OPERATION_MODES[operation], classId)
+  }
+
+  const result = new Uint8Array(operand.length)
+  for (let i = 0; i < operand.length; i++) {
+    result[i] = operand[i] === 0 ? classId : 0
+  }
+  return result
+}
+
+// Swap a selection that was already combined into a class mask for an edited
+// one. The old selection is taken back out of the current mask, so later edits
+// survive; the mask from before the selection only fills back pixels the old
+// selection had cut away.
+export const reapplySelection = (
+  current: Uint8Array | null,
+  base: Uint8Array | null,
+  oldSelection: Uint8Array,
+  newSelection: Uint8Array,
+  mode: SelectionMode,
+  classId: number
+): Uint8Array => {
+  const stripped = current ? current.slice() : new Uint8Array(newSelection.length)
+
+  for (let i = 0; i < stripped.length; i++) {
+    const inOld = oldSelection[i] !== 0
+
+    // Pixels the old selection set or cleared
+    let decided: boolean
+    switch (mode) {
+      case 'add':
+      case 'subtract':
+        decided = inOld
+        break
+      case 'intersect':
+        decided = !inOld
+        break
+      default:
+        decided = true
+    }
+
+    if (decided) {
+      stripped[i] = mode !== 'add' && base !== null && base[i] !== 0 ? classId : 0
+    }
+  }
+
+  return combineMasks(stripped, newSelection, mode, classId)
+}
+
+export const countMaskPixels = (mask: Uint8Array): number => {
+  let count = 0
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] !== 0) count++
+  }
+  return count
+}
+
+// Rasterize a brush stroke (image-space points, round caps and joins) into a
+// 0/1 mask. Only the stroke's bounding box is drawn to keep large images cheap.
+export const rasterizeStroke = (
+  points: number[],
+  brushSize: number,
+  width: number,
+  height: number
+): Uint8Array => {
+  const mask = new Uint8Array(width * height)
+  if (points.length < 2) return mask
+
+  const radius = brushSize / 2
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (let i = 0; i < points.length; i += 2) {
+    minX = Math.min(minX, points[i])
+    maxX = Math.max(maxX, points[i])
+    minY = Math.min(minY, points[i + 1])
+    maxY = Math.max(maxY, points[i + 1])
+  }
+
+  const left = Math.max(0, Math.floor(minX - radius - 1))
+  const top = Math.max(0, Math.floor(minY - radius - 1))
+  const right = Math.min(width, Math.ceil(maxX + radius + 1))
+  const bottom = Math.min(height, Math.ceil(maxY + radius + 1))
+  if (right <= left || bottom <= top) return mask
+
+  const canvas = new OffscreenCanvas(right - left, bottom - top)
+  const ctx = canvas.getContext('2d')!
+  ctx.translate(-left, -top)
+  ctx.strokeStyle = '#fff'
+  ctx.fillStyle = '#fff'
+  ctx.lineWidth = brushSize
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+
+  if (points.length === 2) {
+    // A single click paints a dot the size of the brush
+    ctx.beginPath()
+    ctx.arc(points[0], points[1], radius, 0, Math.PI * 2)
+    ctx.fill()
+  } else {
+    ctx.beginPath()
+    ctx.moveTo(points[0], points[1])
+    for (let i = 2; i < points.length; i += 2) {
+      ctx.lineTo(points[i], points[i + 1])
+    }
+    ctx.stroke()
+  }
+
+  const pixels = ctx.getImageData(0, 0, right - left, bottom - top).data
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      // Anti-aliased edge pixels count when at least half covered
+      if (pixels[((y - top) * (right - left) + (x - left)) * 4 + 3] >= 128) {
+        mask[y * width + x] = 1
+      }
+    }
+  }
+
+  return mask
+}
@@ -0,0 +1,144 @@
+import { SegmentationMask } from '../services/segmentation/types'
+import { labelConnectedComponents } from './maskUtils'
+
+export type MorphologyOperation = 'dilate' | 'erode' | 'open' | 'close' | 'fill-holes' | 'remove-islands'
+
+// Chamfer weights for orthogonal and diagonal steps (3-4 approximates Euclidean distance x3)
+const CHAMFER_STRAIGHT = 3
+const CHAMFER_DIAGONAL = 4
+
+// Approximate distance from every pixel to the nearest pixel where target(i) is true,
+// in pixels, using a two-pass chamfer transform so any radius costs the same
+const distanceTo = (
+  width: number,
+  height: number,
+  target: (index: number) => boolean
+): Uint32Array => {
+  const far = 0xffffffff - CHAMFER_DIAGONAL
+  const distance = new Uint32Array(width * height)
+  for (let i = 0; i < distance.length; i++) {
+    distance[i] = target(i) ? 0 : far
+  }
+
+  const relax = (i: number, neighbour: number, weight: number) => {
+    const candidate = distance[neighbour] + weight
+    if (candidate < distance[i]) distance[i] = candidate
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (x > 0) relax(i, i - 1, CHAMFER_STRAIGHT)
+      if (y > 0) {
+        relax(i, i - width, CHAMFER_STRAIGHT)
+        if (x > 0) relax(i, i - width - 1, CHAMFER_DIAGONAL)
+        if (x < width - 1) relax(i, i - width + 1, CHAMFER_DIAGONAL)
+      }
+    }
+  }
+
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x
+      if (x < width - 1) relax(i, i + 1, CHAMFER_STRAIGHT)
+      if (y < height - 1) {
+        relax(i, i + width, CHAMFER_STRAIGHT)
+        if (x < width - 1) relax(i, i + width + 1, CHAMFER_DIAGONAL)
+        if (x > 0) relax(i, i + width - 1, CHAMFER_DIAGONAL)
+      }
+    }
+  }
+
+  return distance
+}
+
+// Grow the mask by radius pixels (round structuring element). Set pixels are written as value.
+export const dilateMask = (mask: Uint8Array, width: number, height: number, radius: number, value: number): Uint8Array => {
+  const distance = distanceTo(width, height, i => mask[i] !== 0)
+  const limit = radius * CHAMFER_STRAIGHT
+  const result = new Uint8Array(mask.length)
+  for (let i = 0; i < result.length; i++) {
+    if (distance[i] <= limit) result[i] = value
+  }
+  return result
+}
+
+// Shrink the mask by radius pixels; pixels closer than that to the outside are cleared
+export const erodeMask = (mask: Uint8Array, width: number, height: number, radius: number, value: number): Uint8Array => {
+  const distance = distanceTo(width, height, i => mask[i] === 0)
+  const limit = radius * CHAMFER_STRAIGHT
+  const result = new Uint8Array(mask.length)
+  for (let i = 0; i < result.length; i++) {
+    if (distance[i] > limit) result[i] = value
+  }
+  return result
+}
+
+// Fill enclosed gaps up to maxHoleSize pixels. Gaps touching the image border are
+// never holes, and large ones (windows in a wall) are kept by the size limit.
+export const fillHoles = (mask: Uint8Array, width: number, height: number, maxHoleSize: number, value: number): Uint8Array => {
+  const { labels, components } = labelConnectedComponents(mask.map(v => (v === 0 ? 1 : 0)), width, height)
+  const fill = components.map(c =>
+    c.area <= maxHoleSize && c.minX > 0 && c.minY > 0 && c.maxX < width - 1 && c.maxY < height - 1
+  )
+
+  const result = mask.slice()
+  for (let i = 0; i < result.length; i++) {
+    if (labels[i] !== 0 && fill[labels[i] - 1]) result[i] = value
+  }
+  return result
+}
+
+// Drop connected specks smaller than minSize pixels
+export const removeSmallIslands = (mask: Uint8Array, width: number, height: number, minSize: number): Uint8Array => {
+  const { labels, components } = labelConnectedComponents(mask, width, height)
+  const keep = components.map(c => c.area >= minSize)
+
+  const result = mask.slice()
+  for (let i = 0; i < result.length; i++) {
+    if (labels[i] !== 0 && !keep[labels[i] - 1]) result[i] = 0
+  }
+  return result
+}
+
+// Apply one cleanup step to a class mask. amount is a radius in pixels for
+// dilate/erode/open/close and an area in pixels for the hole and island steps.
+// Any soft alpha from edge refinement is dropped since it no longer matches.
+export const applyMorphology = (
+  mask: SegmentationMask,
+  operation: MorphologyOperation,
+  amount: number
+): SegmentationMask => {
+  const { width, height, classId } = mask
+  let data: Uint8Array
+
+  switch (operation) {
+    case 'dilate':
+      data = dilateMask(mask.data, width, height, amount, classId)
+      break
+    case 'erode':
+      data = erodeMask(mask.data, width, height, amount, classId)
+      break
+    case 'open':
+      data = dilateMask(erodeMask(mask.data, width, height, amount, classId), width, height, amount, classId)
+      break
+    case 'close':
+      data = erodeMask(dilateMask(mask.data, width, height, amount, classId), width, height, amount, classId)
+      break
+    case 'fill-holes':
+      data = fillHoles(mask.data, width, height, amount, classId)
+      break
+    case 'remove-islands':
+      data = removeSmallIslands(mask.data, width, height, amount)
+      break
+  }
+
+  return {
+    data,
+    width,
+    height,
+    classId,
+    className: mask.className,
+    confidence: mask.confidence
+  }
+}
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL: string
   readonly VITE_TENSORFLOW_MODEL_URL: string
+  readonly VITE_SEGMENTATION_BACKEND: string
   readonly VITE_SENTRY_DSN: string
 }
 
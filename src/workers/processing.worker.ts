@@ -0,0 +1,101 @@
+import { segmentationService } from '../services/segmentation'
+import { colorProcessor } from '../services/colorProcessor'
+import { refineMaskEdges } from '../utils/maskRefinement'
+import { segmentFromScribbles } from '../utils/graphCut'
+import {
+  RecolorJobRequest,
+  RefineJobRequest,
+  ScribbleJobRequest,
+  SegmentJobRequest,
+  WorkerJobRequest,
+  WorkerJobResponse
+} from './types'
+
+// Heavy per-pixel work (segmentation and recoloring) runs here so the UI stays responsive.
+// Cancellation is handled by the client terminating this worker.
+const workerScope = self as unknown as Worker
+
+const post = (message: WorkerJobResponse, transfer: Transferable[] = []) => {
+  workerScope.postMessage(message, transfer)
+}
+
+const toImageData = ({ buffer, width, height }: { buffer: ArrayBuffer; width: number; height: number }) =>
+  new ImageData(new Uint8ClampedArray(buffer), width, height)
+
+const runSegmentation = async (job: SegmentJobRequest) => {
+  const result = await segmentationService.segmentImageData(toImageData(job.image), job.backendId, {
+    profile: job.profile,
+    onProgress: progress => post({ type: 'progress', id: job.id, progress })
+  })
+
+  post(
+    { type: 'segment-result', id: job.id, result },
+    result.masks.map(mask => mask.data.buffer as ArrayBuffer)
+  )
+}
+
+const runRecolor = async (job: RecolorJobRequest) => {
+  const image = toImageData(job.image)
+  const labels = new Uint8Array(job.labels)
+  const coverage = job.coverage ? new Uint8Array(job.coverage) : undefined
+  const onProgress = (progress: number) => post({ type: 'progress', id: job.id, progress })
+
+  const result = job.previewScale !== undefined
+    ? await colorProcessor.createPreview(image, labels, job.regions, job.previewScale, onProgress, coverage)
+    : await colorProcessor.applyColorScheme(image, labels, job.regions, onProgress, coverage)
+
+  const { data, width, height } = result.imageData
+  post(
+    {
+      type: 'recolor-result',
+      id: job.id,
+      result: {
+        image: { buffer: data.buffer as ArrayBuffer, width, height },
+        processingTime: result.processingTime
+      }
+    },
+    [data.buffer as ArrayBuffer]
+  )
+}
+
+const runRefine = (job: RefineJobRequest) => {
+  const result = refineMaskEdges(job.mask, toImageData(job.image), job.options)
+
+  post(
+    { type: 'refine-result', id: job.id, result },
+    [result.data.buffer as ArrayBuffer, result.alpha!.buffer as ArrayBuffer]
+  )
+}
+
+const runScribble = (job: ScribbleJobRequest) => {
+  const mask = segmentFromScribbles(
+    toImageData(job.image),
+    new Uint8Array(job.scribbles),
+    job.options,
+    job.previousMask ? new Uint8Array(job.previousMask) : undefined
+  )
+
+  post({ type: 'scribble-result', id: job.id, result: mask.buffer as ArrayBuffer }, [mask.buffer as ArrayBuffer])
+}
+
+workerScope.onmessage = async (event: MessageEvent<WorkerJobRequest>) => {
+  const job = event.data
+
+  try {
+    if (job.type === 'segment') {
+      await runSegmentation(job)
+    } else if (job.type === 'refine') {
+      runRefine(job)
+    } else if (job.type === 'scribble') {
+      runScribble(job)
+    } else {
+      await runRecolor(job)
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: job.id,
+      message: error instanceof Error ? error.message : 'Processing failed'
+    })
+  }
+}
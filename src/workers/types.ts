@@ -0,0 +1,62 @@
+import { ColorChangeOptions } from '../services/colorProcessor'
+import { SegmentationBackendId, SegmentationMask, SegmentationResult } from '../services/segmentation/types'
+import { SceneProfileId } from '../services/segmentation/profiles'
+import { RefineEdgesOptions } from '../utils/maskRefinement'
+import { GraphCutOptions } from '../utils/graphCut'
+
+// Pixel buffers cross the worker boundary as transferable ArrayBuffers
+export interface TransferableImage {
+  buffer: ArrayBuffer
+  width: number
+  height: number
+}
+
+export interface SegmentJobRequest {
+  type: 'segment'
+  id: number
+  image: TransferableImage
+  backendId: SegmentationBackendId
+  profile?: SceneProfileId
+}
+
+export interface RecolorJobRequest {
+  type: 'recolor'
+  id: number
+  image: TransferableImage
+  labels: ArrayBuffer // Uint8Array of 1-based indices into regions, 0 for untouched pixels
+  regions: ColorChangeOptions[]
+  coverage?: ArrayBuffer // Optional Uint8Array of 0-255 soft mask coverage
+  previewScale?: number // Set to render a downsampled preview instead of full resolution
+}
+
+export interface RefineJobRequest {
+  type: 'refine'
+  id: number
+  image: TransferableImage
+  mask: SegmentationMask
+  options: RefineEdgesOptions
+}
+
+export interface ScribbleJobRequest {
+  type: 'scribble'
+  id: number
+  image: TransferableImage
+  scribbles: ArrayBuffer // Uint8Array of SCRIBBLE_* values
+  previousMask?: ArrayBuffer // Current class mask, refined rather than replaced from scratch
+  options: GraphCutOptions
+}
+
+export type WorkerJobRequest = SegmentJobRequest | RecolorJobRequest | RefineJobRequest | ScribbleJobRequest
+
+export interface RecolorJobResult {
+  image: TransferableImage
+  processingTime: number
+}
+
+export type WorkerJobResponse =
+  | { type: 'progress'; id: number; progress: number }
+  | { type: 'segment-result'; id: number; result: SegmentationResult }
+  | { type: 'recolor-result'; id: number; result: RecolorJobResult }
+  | { type: 'refine-result'; id: number; result: SegmentationMask }
+  | { type: 'scribble-result'; id: number; result: ArrayBuffer }
+  | { type: 'error'; id: number; message: string }
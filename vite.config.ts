@@ -7,4 +7,8 @@ export default defineConfig({
   server: {
     port: 3000,
   },
+  worker: {
+    // The processing worker pulls in TensorFlow.js, which needs code splitting
+    format: 'es',
+  },
 })
\ No newline at end of file